@@ -0,0 +1,42 @@
+import { BrowserWindow, dialog, ipcMain } from 'electron';
+import { readFile, writeFile } from 'fs/promises';
+
+export interface FileFilter {
+  name: string;
+  extensions: string[];
+}
+
+// Native save/open dialogs for the renderer, exposed through the preload script
+export function registerFileDialogHandlers() {
+  ipcMain.handle(
+    'file:save',
+    async (event, data: Uint8Array, defaultName: string, filters: FileFilter[]) => {
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options = { defaultPath: defaultName, filters };
+      const result = window
+        ? await dialog.showSaveDialog(window, options)
+        : await dialog.showSaveDialog(options);
+
+      if (result.canceled || !result.filePath) return false;
+
+      await writeFile(result.filePath, data);
+      return true;
+    }
+  );
+
+  ipcMain.handle('file:open', async (event, filters: FileFilter[]) => {
+    const window = BrowserWindow.fromWebContents(event.sender);
+    const options: Electron.OpenDialogOptions = {
+      filters,
+      properties: ['openFile'],
+    };
+    const result = window
+      ? await dialog.showOpenDialog(window, options)
+      : await dialog.showOpenDialog(options);
+
+    if (result.canceled || result.filePaths.length === 0) return null;
+
+    const data = await readFile(result.filePaths[0]);
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  });
+}
@@ -2,13 +2,19 @@ import { app, BrowserWindow } from 'electron';
 import { isDev } from './util.js';
 import { pollResources } from './resourceManager.js';
 import { getPreloadPath } from './pathResolver.js';
+import { registerFileDialogHandlers } from './fileDialogs.js';
+
+// The production build is loaded from file://, where the cross-origin
+// isolation headers can't be set; enable SharedArrayBuffer for the workers
+app.commandLine.appendSwitch('enable-features', 'SharedArrayBuffer');
 
 app.on("ready", () => {
+  registerFileDialogHandlers();
+
   const mainWindow = new BrowserWindow({
-    // if you want to use prelaod scripts
-    // webPreferences: {
-    //   preload: getPreloadPath()
-    // },
+    webPreferences: {
+      preload: getPreloadPath()
+    },
   });
   if (isDev()) {
     // Load the React app in development mode
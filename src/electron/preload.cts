@@ -2,5 +2,9 @@ const electron = require('electron');
 
 electron.contextBridge.exposeInMainWorld('electron', {
   subscibeStatistics: (callback: (statistics: any) => void) => callback({}),
-  getStaticData: () => console.log('static')
+  getStaticData: () => console.log('static'),
+  saveFile: (data: Uint8Array, defaultName: string, filters: { name: string; extensions: string[] }[]) =>
+    electron.ipcRenderer.invoke('file:save', data, defaultName, filters),
+  openFile: (filters: { name: string; extensions: string[] }[]) =>
+    electron.ipcRenderer.invoke('file:open', filters)
 });
@@ -1,6 +1,68 @@
-import { useState, useCallback } from "react";
-import { Canvas } from "./components/Canvas";
+import { useState, useCallback, useMemo, useRef, useEffect } from "react";
+import { Canvas, type CanvasHandle } from "./components/Canvas";
 import { ControlPanel } from "./components/controlPanel/ControlPanel";
+import { ParticleInspector } from "./components/ParticleInspector";
+import { ColorLegend } from "./components/ColorLegend";
+import type {
+  BoundaryMode,
+  Integrator,
+  ParticleInfo,
+} from "./simulation/ParticleSystem";
+import {
+  DEFAULT_PHYSICS_PARAMETERS,
+  resizeSpeciesList,
+  validatePhysicsParameters,
+  validateSpeciesProperties,
+  type PhysicsParameters,
+  type SpeciesProperties,
+} from "./simulation/PhysicsParameters";
+import {
+  DEFAULT_FORCE_KERNEL_ID,
+  getDefaultKernelParameters,
+  getForceKernel,
+  validateKernelParameters,
+  type ForceKernelParameters,
+} from "./simulation/ForceKernels";
+import {
+  Random,
+  deriveSeed,
+  SEED_STREAM_RULES,
+  SEED_STREAM_RANDOMIZE,
+} from "./simulation/Random";
+import { clampTimeScale } from "./simulation/SimulationClock";
+import {
+  DEFAULT_RENDER_SETTINGS,
+  validateRenderSettings,
+  type RenderSettings,
+} from "./simulation/RenderSettings";
+import {
+  BOOKMARK_SLOTS,
+  DEFAULT_PAN_FRICTION,
+  type CameraView,
+} from "./simulation/Camera";
+import { SimulationWorkers } from "./simulation/SimulationWorkers";
+import {
+  encodeSnapshot,
+  decodeSnapshot,
+  getSnapshotFileName,
+  SNAPSHOT_FILE_EXTENSION,
+} from "./simulation/Snapshot";
+import {
+  encodeShareCode,
+  decodeShareCode,
+  readShareCodeFromHash,
+  formatShareHash,
+  type ShareConfig,
+} from "./simulation/ShareCode";
+import { generateHuePalette, resizePalette } from "./simulation/Palette";
+import {
+  DEFAULT_BRUSH_SETTINGS,
+  validateBrushSettings,
+  type BrushSettings,
+  type ToolMode,
+} from "./simulation/Tools";
+import { getColorModeInfo } from "./simulation/ColorModes";
+import { saveFile, openFile, type FileFilter } from "./fileDialogs";
 import "./App.css";
 
 const containerStyle: React.CSSProperties = {
@@ -30,33 +92,152 @@ const infoStyle: React.CSSProperties = {
   opacity: 0.8,
 };
 
+const snapshotFileFilter: FileFilter = {
+  name: "Particle Life Snapshot",
+  extensions: [SNAPSHOT_FILE_EXTENSION],
+};
+
+// Initialize color matrix (deterministic for a given seed)
+const initializeMatrix = (count: number, seed: number) => {
+  const random = new Random(deriveSeed(seed, SEED_STREAM_RULES));
+  const matrix: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    matrix[i] = [];
+    for (let j = 0; j < count; j++) {
+      if (i === j) {
+        matrix[i][j] = -0.4; // Same color repulsion
+      } else {
+        matrix[i][j] = (random.next() - 0.5) * 3.0; // Random attraction/repulsion
+      }
+    }
+  }
+  return matrix;
+};
+
+// Per-pair radius or repulsion multipliers, all neutral
+const createScaleMatrix = (count: number) =>
+  Array.from({ length: count }, () => new Array<number>(count).fill(1));
+
+// Resize a multiplier matrix, keeping the surviving pairs
+const resizeScaleMatrix = (prev: number[][], count: number) => {
+  const matrix = createScaleMatrix(count);
+  for (let i = 0; i < Math.min(count, prev.length); i++) {
+    for (let j = 0; j < Math.min(count, prev.length); j++) {
+      matrix[i][j] = prev[i][j];
+    }
+  }
+  return matrix;
+};
+
+// Split a flat row-major matrix into rows
+const toRows = (values: Float32Array, count: number) => {
+  const matrix: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    matrix[i] = Array.from(values.subarray(i * count, (i + 1) * count));
+  }
+  return matrix;
+};
+
+// One entry per bookmark slot, padding or truncating saved bookmarks
+const createBookmarkSlots = (saved: (CameraView | null)[]) =>
+  Array.from({ length: BOOKMARK_SLOTS }, (_, slot) => saved[slot] ?? null);
+
+// Rule set from the URL hash of the web build, if any
+const readShareConfigFromUrl = (): ShareConfig | null => {
+  if (window.electron) return null;
+
+  const code = readShareCodeFromHash(window.location.hash);
+  if (!code) return null;
+
+  try {
+    return decodeShareCode(code);
+  } catch (error) {
+    console.error("Ignoring invalid share code in URL:", error);
+    return null;
+  }
+};
+
 function App() {
+  const canvasRef = useRef<CanvasHandle>(null);
+
+  // A shared link decides the initial rules, read once on startup
+  const [initialShare] = useState(readShareConfigFromUrl);
+
   // State for particle system parameters
   const [particleCount, setParticleCount] = useState(3000);
-  const [colorCount, setColorCount] = useState(6);
-  const [sensingRadius, setSensingRadius] = useState(80);
-  const [forceScale, setForceScale] = useState(150);
-  const [maxSpeed, setMaxSpeed] = useState(120);
-  const [damping, setDamping] = useState(0.98);
-
-  // Initialize color matrix
-  const initializeMatrix = (count: number) => {
-    const matrix: number[][] = [];
-    for (let i = 0; i < count; i++) {
-      matrix[i] = [];
-      for (let j = 0; j < count; j++) {
-        if (i === j) {
-          matrix[i][j] = -0.4; // Same color repulsion
-        } else {
-          matrix[i][j] = (Math.random() - 0.5) * 3.0; // Random attraction/repulsion
-        }
-      }
-    }
-    return matrix;
-  };
+  const [colorCount, setColorCount] = useState(
+    () => initialShare?.colorCount ?? 6,
+  );
+  const [physics, setPhysics] = useState<PhysicsParameters>(
+    () => initialShare?.physics ?? DEFAULT_PHYSICS_PARAMETERS,
+  );
+  const [forceKernel, setForceKernel] = useState(
+    () => initialShare?.forceKernel ?? DEFAULT_FORCE_KERNEL_ID,
+  );
+  const [kernelParameters, setKernelParameters] =
+    useState<ForceKernelParameters>(() =>
+      validateKernelParameters(
+        getForceKernel(forceKernel),
+        initialShare?.kernelParameters ?? {},
+      ),
+    );
+  const [boundaryMode, setBoundaryMode] = useState<BoundaryMode>("wrap");
+  const [integrator, setIntegrator] = useState<Integrator>("euler");
+  const [substeps, setSubsteps] = useState(1);
+  const [paused, setPaused] = useState(false);
+  const [timeScale, setTimeScale] = useState(1);
+  const [workerCount, setWorkerCount] = useState(() =>
+    SimulationWorkers.getDefaultWorkerCount(),
+  );
+  const [seed, setSeed] = useState(
+    () => initialShare?.seed ?? Random.createSeed(),
+  );
+  const [tool, setTool] = useState<ToolMode>("pan");
+  const [brush, setBrush] = useState<BrushSettings>(DEFAULT_BRUSH_SETTINGS);
 
-  const [colorMatrix, setColorMatrix] = useState<number[][]>(() =>
-    initializeMatrix(colorCount),
+  // Id of the particle picked with a click, shown in the inspector
+  const [selectedParticle, setSelectedParticle] = useState<number | null>(null);
+  const [particleInfo, setParticleInfo] = useState<ParticleInfo | null>(null);
+  const [followSelection, setFollowSelection] = useState(false);
+
+  // Saved camera views, recalled with keys 1-9
+  const [bookmarks, setBookmarks] = useState<(CameraView | null)[]>(() =>
+    createBookmarkSlots([]),
+  );
+  const [panFriction, setPanFriction] = useState(DEFAULT_PAN_FRICTION);
+  const [renderSettings, setRenderSettings] = useState<RenderSettings>(
+    DEFAULT_RENDER_SETTINGS,
+  );
+  // Why the last snapshot save or open failed
+  const [snapshotError, setSnapshotError] = useState<string | null>(null);
+  // Why the last pasted share code was rejected
+  const [shareCodeError, setShareCodeError] = useState<string | null>(null);
+  // Value range the color mode's gradient spans, reported by Canvas
+  const [colorScale, setColorScale] = useState<{
+    min: number;
+    max: number;
+  } | null>(null);
+
+  const [colorMatrix, setColorMatrix] = useState<number[][]>(
+    () => initialShare?.colorMatrix ?? initializeMatrix(colorCount, seed),
+  );
+  const [palette, setPalette] = useState<Float32Array>(
+    () => initialShare?.palette ?? generateHuePalette(colorCount),
+  );
+  const [species, setSpecies] = useState<SpeciesProperties[]>(
+    () => initialShare?.species ?? resizeSpeciesList([], colorCount),
+  );
+  const [radiusMatrix, setRadiusMatrix] = useState<number[][]>(
+    () => initialShare?.radiusMatrix ?? createScaleMatrix(colorCount),
+  );
+  const [repulsionMatrix, setRepulsionMatrix] = useState<number[][]>(
+    () => initialShare?.repulsionMatrix ?? createScaleMatrix(colorCount),
+  );
+
+  // Random stream for the "Randomize Rules" button, reproducible per seed
+  const randomizeRandom = useMemo(
+    () => new Random(deriveSeed(seed, SEED_STREAM_RANDOMIZE)),
+    [seed],
   );
 
   // FPS state for display
@@ -68,37 +249,350 @@ function App() {
   }, []);
 
   // Handler for color count change
-  const handleColorCountChange = useCallback((count: number) => {
-    setColorCount(count);
-    // Reset matrix for new color count
-    setColorMatrix(initializeMatrix(count));
-  }, []);
+  const handleColorCountChange = useCallback(
+    (count: number) => {
+      setColorCount(count);
+      // Resize matrix for new color count, keeping the existing rules
+      setColorMatrix((prev) => {
+        const matrix = initializeMatrix(count, seed);
+        for (let i = 0; i < Math.min(count, prev.length); i++) {
+          for (let j = 0; j < Math.min(count, prev.length); j++) {
+            matrix[i][j] = prev[i][j];
+          }
+        }
+        return matrix;
+      });
+      setSpecies((prev) => resizeSpeciesList(prev, count));
+      setPalette((prev) => resizePalette(prev, count));
+      setRadiusMatrix((prev) => resizeScaleMatrix(prev, count));
+      setRepulsionMatrix((prev) => resizeScaleMatrix(prev, count));
+    },
+    [seed],
+  );
+
+  // Handler for seed change: regenerate initial state and rules
+  const handleSeedChange = useCallback(
+    (newSeed: number) => {
+      setSeed(newSeed);
+      setColorMatrix(initializeMatrix(colorCount, newSeed));
+      setSelectedParticle(null);
+      canvasRef.current?.resetWorld(newSeed);
+    },
+    [colorCount],
+  );
 
   // Handler for matrix update
   const handleMatrixUpdate = useCallback((newMatrix: number[][]) => {
     setColorMatrix(newMatrix);
   }, []);
 
-  // Handler for sensing radius change
-  const handleSensingRadiusChange = useCallback((radius: number) => {
-    setSensingRadius(radius);
+  // Handler for palette editor changes
+  const handlePaletteChange = useCallback((newPalette: Float32Array) => {
+    setPalette(newPalette);
+  }, []);
+
+  // Handler for edits in the species table
+  const handleSpeciesChange = useCallback(
+    (colorIndex: number, properties: Partial<SpeciesProperties>) => {
+      setSpecies((prev) =>
+        prev.map((entry, index) =>
+          index === colorIndex
+            ? validateSpeciesProperties(entry, properties)
+            : entry,
+        ),
+      );
+    },
+    [],
+  );
+
+  // Handler for per-pair sensing radius updates
+  const handleRadiusMatrixUpdate = useCallback((newMatrix: number[][]) => {
+    setRadiusMatrix(newMatrix);
+  }, []);
+
+  // Handler for per-pair repulsion zone updates
+  const handleRepulsionMatrixUpdate = useCallback((newMatrix: number[][]) => {
+    setRepulsionMatrix(newMatrix);
+  }, []);
+
+  // Handler for physics parameter changes (sensing radius, force scale, ...)
+  const handlePhysicsChange = useCallback(
+    (parameters: Partial<PhysicsParameters>) => {
+      setPhysics((prev) => validatePhysicsParameters(prev, parameters));
+    },
+    [],
+  );
+
+  // Handler for force kernel change: new kernels start at their defaults
+  const handleForceKernelChange = useCallback((id: string) => {
+    const kernel = getForceKernel(id);
+    setForceKernel(kernel.id);
+    setKernelParameters(getDefaultKernelParameters(kernel));
+  }, []);
+
+  // Handler for the active kernel's parameter sliders
+  const handleKernelParametersChange = useCallback(
+    (parameters: ForceKernelParameters) => {
+      setKernelParameters(parameters);
+    },
+    [],
+  );
+
+  // Handler for boundary mode change
+  const handleBoundaryModeChange = useCallback((mode: BoundaryMode) => {
+    setBoundaryMode(mode);
+  }, []);
+
+  // Handler for integrator change
+  const handleIntegratorChange = useCallback((value: Integrator) => {
+    setIntegrator(value);
+  }, []);
+
+  // Handler for substep count change
+  const handleSubstepsChange = useCallback((count: number) => {
+    setSubsteps(count);
   }, []);
 
-  // Handler for force scale change
-  const handleForceScaleChange = useCallback((scale: number) => {
-    setForceScale(scale);
+  // Handler for pause/resume (button or P key)
+  const handlePausedChange = useCallback((value: boolean) => {
+    setPaused(value);
   }, []);
 
-  // Handler for max speed change
-  const handleMaxSpeedChange = useCallback((speed: number) => {
-    setMaxSpeed(speed);
+  // Handler for simulation speed change
+  const handleTimeScaleChange = useCallback((value: number) => {
+    setTimeScale(clampTimeScale(value));
   }, []);
 
-  // Handler for damping change
-  const handleDampingChange = useCallback((dampingValue: number) => {
-    setDamping(dampingValue);
+  // Handler for stepping: freeze the world and advance it by N fixed steps
+  const handleStep = useCallback((count: number) => {
+    setPaused(true);
+    canvasRef.current?.stepFrames(count);
+  }, []);
+
+  // Handler for worker thread count change (0 runs physics on the main thread)
+  const handleWorkerCountChange = useCallback((count: number) => {
+    setWorkerCount(count);
+  }, []);
+
+  // Handler for mouse tool selection
+  const handleToolChange = useCallback((value: ToolMode) => {
+    setTool(value);
+  }, []);
+
+  // Handler for brush settings (panel or Shift/Alt + wheel on the canvas)
+  const handleBrushChange = useCallback((settings: Partial<BrushSettings>) => {
+    setBrush((prev) => validateBrushSettings(prev, settings));
+  }, []);
+
+  // Handler for picking a particle on the canvas (null clears the selection)
+  const handleSelectParticle = useCallback((id: number | null) => {
+    setSelectedParticle(id);
+    if (id === null) {
+      setParticleInfo(null);
+      setFollowSelection(false);
+    }
+  }, []);
+
+  // Handler for inspector refreshes from Canvas
+  const handleInspect = useCallback((info: ParticleInfo | null) => {
+    setParticleInfo(info);
+  }, []);
+
+  // Handler for the inspector's follow toggle
+  const handleFollowChange = useCallback((follow: boolean) => {
+    setFollowSelection(follow);
+  }, []);
+
+  // Handler for storing the current camera view in a bookmark slot
+  const handleBookmarkSave = useCallback((slot: number) => {
+    const view = canvasRef.current?.getCameraView();
+    if (!view) return;
+
+    setBookmarks((prev) =>
+      prev.map((bookmark, index) => (index === slot ? view : bookmark)),
+    );
+  }, []);
+
+  // Handler for flying the camera to a bookmarked view
+  const handleBookmarkRecall = useCallback(
+    (slot: number) => {
+      const view = bookmarks[slot];
+      if (view) canvasRef.current?.flyTo(view);
+    },
+    [bookmarks],
+  );
+
+  // Handler for the kinetic panning friction
+  const handlePanFrictionChange = useCallback((value: number) => {
+    setPanFriction(value);
   }, []);
 
+  // Handler for color mode scale updates from Canvas
+  const handleColorScaleChange = useCallback(
+    (scale: { min: number; max: number } | null) => {
+      setColorScale(scale);
+    },
+    [],
+  );
+
+  // Handler for display settings (color mode, trails and post-processing)
+  const handleRenderSettingsChange = useCallback(
+    (settings: Partial<RenderSettings>) => {
+      setRenderSettings((prev) => validateRenderSettings(prev, settings));
+    },
+    [],
+  );
+
+  // Handler for saving the current world to a snapshot file
+  const handleSaveSnapshot = useCallback(async () => {
+    try {
+      const snapshot = await canvasRef.current?.captureSnapshot();
+      if (!snapshot) return;
+
+      await saveFile(
+        encodeSnapshot(snapshot),
+        getSnapshotFileName(),
+        snapshotFileFilter,
+      );
+      setSnapshotError(null);
+    } catch (error) {
+      setSnapshotError(
+        `Failed to save snapshot: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }, []);
+
+  // Handler for restoring a snapshot file
+  const handleOpenSnapshot = useCallback(async () => {
+    try {
+      const data = await openFile(snapshotFileFilter);
+      if (!data) return;
+
+      const snapshot = decodeSnapshot(data);
+      const { particles } = snapshot;
+      canvasRef.current?.loadSnapshot(snapshot);
+      handleSelectParticle(null);
+      setBookmarks(createBookmarkSlots(snapshot.bookmarks));
+
+      // Mirror the loaded world in the controls
+      const count = particles.colorCount;
+      setSeed(particles.seed);
+      setParticleCount(particles.particleCount);
+      setColorCount(count);
+      setColorMatrix(toRows(particles.colorMatrix, count));
+      setRadiusMatrix(toRows(particles.radiusMatrix, count));
+      setRepulsionMatrix(toRows(particles.repulsionMatrix, count));
+      setSpecies(resizeSpeciesList(particles.species, count));
+      setPalette(
+        particles.palette.length === count * 3
+          ? particles.palette
+          : resizePalette(particles.palette, count),
+      );
+      setPhysics((prev) => validatePhysicsParameters(prev, particles.physics));
+      setBoundaryMode(particles.boundaryMode);
+      setIntegrator(particles.integrator);
+      setForceKernel(getForceKernel(particles.forceKernel).id);
+      setKernelParameters(
+        validateKernelParameters(
+          getForceKernel(particles.forceKernel),
+          particles.kernelParameters,
+        ),
+      );
+      setSubsteps(snapshot.substeps);
+      setSnapshotError(null);
+    } catch (error) {
+      setSnapshotError(
+        `Failed to open snapshot: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }, [handleSelectParticle]);
+
+  // Current rule set as a share code
+  const getShareCode = useCallback(() => {
+    return encodeShareCode({
+      seed,
+      colorCount,
+      palette,
+      colorMatrix,
+      radiusMatrix,
+      repulsionMatrix,
+      physics,
+      forceKernel,
+      kernelParameters,
+      species,
+    });
+  }, [
+    seed,
+    colorCount,
+    colorMatrix,
+    radiusMatrix,
+    repulsionMatrix,
+    physics,
+    forceKernel,
+    kernelParameters,
+    species,
+    palette,
+  ]);
+
+  // Switch to a shared rule set and restart the world from its seed
+  const applyShareConfig = useCallback((config: ShareConfig) => {
+    setSeed(config.seed);
+    setColorCount(config.colorCount);
+    setColorMatrix(config.colorMatrix);
+    setRadiusMatrix(config.radiusMatrix);
+    setRepulsionMatrix(config.repulsionMatrix);
+    setPhysics(config.physics);
+    setForceKernel(config.forceKernel);
+    setKernelParameters(config.kernelParameters);
+    setSpecies(config.species);
+    setPalette(config.palette);
+    setSelectedParticle(null);
+    canvasRef.current?.resetWorld(config.seed, config.colorCount);
+  }, []);
+
+  // Handler for pasted share codes
+  const handleApplyShareCode = useCallback(
+    (code: string) => {
+      try {
+        applyShareConfig(decodeShareCode(code));
+        setShareCodeError(null);
+      } catch (error) {
+        setShareCodeError(
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    },
+    [applyShareConfig],
+  );
+
+  // Web build: keep the URL hash in sync so the address is a share link
+  useEffect(() => {
+    if (window.electron) return;
+
+    // Debounced, browsers throttle history updates during slider drags
+    const timeout = setTimeout(() => {
+      const code = getShareCode();
+      if (code) {
+        window.history.replaceState(null, "", formatShareHash(code));
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [getShareCode]);
+
+  // Web build: follow links pasted into the address bar of an open tab
+  useEffect(() => {
+    if (window.electron) return;
+
+    const handleHashChange = () => {
+      const config = readShareConfigFromUrl();
+      if (config) applyShareConfig(config);
+    };
+
+    window.addEventListener("hashchange", handleHashChange);
+    return () => window.removeEventListener("hashchange", handleHashChange);
+  }, [applyShareConfig]);
+
   // Handler for FPS updates from Canvas
   const handleFpsUpdate = useCallback((newFps: number) => {
     setFps(newFps);
@@ -107,35 +601,122 @@ function App() {
   return (
     <div style={containerStyle}>
       <Canvas
+        ref={canvasRef}
+        seed={seed}
         particleCount={particleCount}
         colorCount={colorCount}
-        sensingRadius={sensingRadius}
-        forceScale={forceScale}
-        maxSpeed={maxSpeed}
-        damping={damping}
+        physics={physics}
+        forceKernel={forceKernel}
+        kernelParameters={kernelParameters}
+        boundaryMode={boundaryMode}
+        integrator={integrator}
+        substeps={substeps}
         colorMatrix={colorMatrix}
+        species={species}
+        palette={palette}
+        radiusMatrix={radiusMatrix}
+        repulsionMatrix={repulsionMatrix}
+        paused={paused}
+        timeScale={timeScale}
+        workerCount={workerCount}
+        tool={tool}
+        brush={brush}
+        selectedParticle={selectedParticle}
+        followSelection={followSelection}
+        bookmarks={bookmarks}
+        panFriction={panFriction}
+        renderSettings={renderSettings}
+        onPausedChange={handlePausedChange}
+        onTimeScaleChange={handleTimeScaleChange}
+        onWorkerCountChange={handleWorkerCountChange}
         onFpsUpdate={handleFpsUpdate}
+        onBrushChange={handleBrushChange}
+        onParticleCountChange={handleParticleCountChange}
+        onSelectParticle={handleSelectParticle}
+        onFollowChange={handleFollowChange}
+        onInspect={handleInspect}
+        onColorScaleChange={handleColorScaleChange}
+        onBookmarkSave={handleBookmarkSave}
       />
       <ControlPanel
         particleCount={particleCount}
         colorCount={colorCount}
-        sensingRadius={sensingRadius}
-        forceScale={forceScale}
-        maxSpeed={maxSpeed}
-        damping={damping}
+        physics={physics}
+        forceKernel={forceKernel}
+        kernelParameters={kernelParameters}
+        boundaryMode={boundaryMode}
+        integrator={integrator}
+        substeps={substeps}
+        paused={paused}
+        timeScale={timeScale}
+        workerCount={workerCount}
+        tool={tool}
+        brush={brush}
+        bookmarks={bookmarks}
+        panFriction={panFriction}
+        renderSettings={renderSettings}
         colorMatrix={colorMatrix}
+        species={species}
+        palette={palette}
+        radiusMatrix={radiusMatrix}
+        repulsionMatrix={repulsionMatrix}
+        seed={seed}
+        randomizeRandom={randomizeRandom}
         onParticleCountChange={handleParticleCountChange}
         onColorCountChange={handleColorCountChange}
-        onSensingRadiusChange={handleSensingRadiusChange}
-        onForceScaleChange={handleForceScaleChange}
-        onMaxSpeedChange={handleMaxSpeedChange}
-        onDampingChange={handleDampingChange}
+        onPhysicsChange={handlePhysicsChange}
+        onForceKernelChange={handleForceKernelChange}
+        onKernelParametersChange={handleKernelParametersChange}
+        onBoundaryModeChange={handleBoundaryModeChange}
+        onIntegratorChange={handleIntegratorChange}
+        onSubstepsChange={handleSubstepsChange}
+        onPausedChange={handlePausedChange}
+        onTimeScaleChange={handleTimeScaleChange}
+        onStep={handleStep}
+        onWorkerCountChange={handleWorkerCountChange}
+        onToolChange={handleToolChange}
+        onBrushChange={handleBrushChange}
+        onBookmarkSave={handleBookmarkSave}
+        onBookmarkRecall={handleBookmarkRecall}
+        onPanFrictionChange={handlePanFrictionChange}
+        onRenderSettingsChange={handleRenderSettingsChange}
         onMatrixUpdate={handleMatrixUpdate}
+        onSpeciesChange={handleSpeciesChange}
+        onPaletteChange={handlePaletteChange}
+        onRadiusMatrixUpdate={handleRadiusMatrixUpdate}
+        onRepulsionMatrixUpdate={handleRepulsionMatrixUpdate}
+        onSeedChange={handleSeedChange}
+        onSaveSnapshot={handleSaveSnapshot}
+        onOpenSnapshot={handleOpenSnapshot}
+        snapshotError={snapshotError}
+        getShareCode={getShareCode}
+        onApplyShareCode={handleApplyShareCode}
+        shareCodeError={shareCodeError}
       />
+      {selectedParticle !== null && particleInfo && (
+        <ParticleInspector
+          info={particleInfo}
+          palette={palette}
+          follow={followSelection}
+          onFollowChange={handleFollowChange}
+          onClose={() => handleSelectParticle(null)}
+        />
+      )}
+      {renderSettings.colorMode !== "species" && colorScale && (
+        <ColorLegend
+          mode={getColorModeInfo(renderSettings.colorMode)}
+          scale={colorScale}
+        />
+      )}
       <div style={headerStyle}>
         <h2 style={titleStyle}>Particle Life</h2>
         <p style={infoStyle}>
           {particleCount} particles • {colorCount} colors • {fps} FPS
+          {paused
+            ? " • paused"
+            : timeScale !== 1
+              ? ` • ${timeScale.toFixed(1)}×`
+              : ""}
         </p>
       </div>
     </div>
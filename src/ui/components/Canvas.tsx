@@ -1,38 +1,276 @@
-import React, { useRef, useEffect, useCallback } from "react";
+import React, {
+  useRef,
+  useEffect,
+  useCallback,
+  useImperativeHandle,
+} from "react";
 import { WebGLRenderer } from "../simulation/WebGLRenderer";
-import { ParticleSystem } from "../simulation/ParticleSystem";
-import { Camera } from "../simulation/Camera";
+import {
+  ParticleSystem,
+  type BoundaryMode,
+  type Integrator,
+  type ParticleInfo,
+} from "../simulation/ParticleSystem";
+import {
+  Camera,
+  CAMERA_ANIMATION_DURATION,
+  type CameraView,
+} from "../simulation/Camera";
 import { InputHandler } from "../simulation/InputHandler";
+import {
+  SPECIES_PROPERTY_RANGES,
+  type PhysicsParameters,
+  type SpeciesProperties,
+} from "../simulation/PhysicsParameters";
+import type { ForceKernelParameters } from "../simulation/ForceKernels";
+import { SimulationClock, clampTimeScale } from "../simulation/SimulationClock";
+import { SimulationWorkers } from "../simulation/SimulationWorkers";
+import type { WorldSnapshot } from "../simulation/Snapshot";
+import type { BrushSettings, ToolMode } from "../simulation/Tools";
+import type { RenderSettings } from "../simulation/RenderSettings";
+import {
+  getColorModeInfo,
+  getValueScale,
+  type ColorMode,
+} from "../simulation/ColorModes";
+
+// Longest frame a spawn or erase brush may act over (e.g. after a stall)
+const MAX_BRUSH_FRAME_TIME = 0.1;
+
+// How far from a click (in screen pixels) a particle can still be picked
+const PICK_RADIUS = 12;
+
+// Gap between the selected particle and its ring, in screen pixels
+const SELECTION_MARGIN = 6;
+
+// Fraction of the distance to the followed particle covered per 60 Hz frame
+const FOLLOW_SMOOTHING = 0.1;
+
+// Milliseconds between inspector refreshes
+const INSPECT_INTERVAL = 100;
+
+// Fraction of the change in a color mode's scale applied per 60 Hz frame,
+// so the colors don't flicker
+const COLOR_SCALE_SMOOTHING = 0.05;
+
+// Milliseconds between color legend updates
+const LEGEND_INTERVAL = 250;
+
+// Screen pixels drawn around the viewport, so nothing pops in at the edges
+const CULL_MARGIN = 32;
+
+// Seconds of travel at full speed added to the culling margin: the spatial
+// grid can lag the drawn positions by a few steps
+const CULL_LOOKAHEAD = 0.1;
+
+// Everything is drawn once the culled region would cover this fraction of
+// the world, collecting the indices would cost more than it saves
+const CULL_MAX_COVERAGE = 0.5;
+
+// Average on-screen spacing of the particles, in pixels, below which the
+// world is drawn as a density map
+const DENSITY_LOD_SPACING = 1.5;
+
+// The density map is left again only at this multiple of the spacing, so
+// zooming around the threshold doesn't flicker between the two
+const DENSITY_LOD_HYSTERESIS = 1.25;
+
+/**
+ * Imperative commands exposed to the parent through a ref
+ */
+export interface CanvasHandle {
+  resetWorld: (seed: number, colorCount?: number) => void;
+  stepFrames: (count: number) => void;
+  captureSnapshot: () => Promise<WorldSnapshot | null>;
+  loadSnapshot: (snapshot: WorldSnapshot) => void;
+  getCameraView: () => CameraView | null;
+  flyTo: (view: CameraView) => void;
+}
 
 interface ParticleCanvasProps {
+  ref?: React.Ref<CanvasHandle>;
+  seed: number;
   particleCount: number;
   colorCount: number;
-  sensingRadius: number;
-  forceScale: number;
-  maxSpeed: number;
-  damping: number;
+  physics: PhysicsParameters;
+  forceKernel: string;
+  kernelParameters: ForceKernelParameters;
+  boundaryMode: BoundaryMode;
+  integrator: Integrator;
+  substeps: number;
   colorMatrix: number[][];
+  species: SpeciesProperties[];
+  palette: Float32Array;
+  radiusMatrix: number[][];
+  repulsionMatrix: number[][];
+  paused: boolean;
+  timeScale: number;
+  workerCount: number;
+  tool: ToolMode;
+  brush: BrushSettings;
+  selectedParticle: number | null; // Particle id, see ParticleSystem.getParticleId
+  followSelection: boolean;
+  bookmarks: (CameraView | null)[];
+  panFriction: number;
+  renderSettings: RenderSettings;
+  onPausedChange?: (paused: boolean) => void;
+  onTimeScaleChange?: (timeScale: number) => void;
+  onWorkerCountChange?: (count: number) => void;
   onFpsUpdate?: (fps: number) => void;
+  onBrushChange?: (brush: BrushSettings) => void;
+  onParticleCountChange?: (count: number) => void;
+  onSelectParticle?: (id: number | null) => void;
+  onFollowChange?: (follow: boolean) => void;
+  onInspect?: (info: ParticleInfo | null) => void;
+  onColorScaleChange?: (scale: { min: number; max: number } | null) => void;
+  onBookmarkSave?: (slot: number) => void;
 }
 
 export const Canvas: React.FC<ParticleCanvasProps> = ({
+  ref,
+  seed,
   particleCount,
   colorCount,
-  sensingRadius,
-  forceScale,
-  maxSpeed,
-  damping,
+  physics,
+  forceKernel,
+  kernelParameters,
+  boundaryMode,
+  integrator,
+  substeps,
   colorMatrix,
+  species,
+  palette,
+  radiusMatrix,
+  repulsionMatrix,
+  paused,
+  timeScale,
+  workerCount,
+  tool,
+  brush,
+  selectedParticle,
+  followSelection,
+  bookmarks,
+  panFriction,
+  renderSettings,
+  onPausedChange,
+  onTimeScaleChange,
+  onWorkerCountChange,
   onFpsUpdate,
+  onBrushChange,
+  onParticleCountChange,
+  onSelectParticle,
+  onFollowChange,
+  onInspect,
+  onColorScaleChange,
+  onBookmarkSave,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const rendererRef = useRef<WebGLRenderer | null>(null);
   const particleSystemRef = useRef<ParticleSystem | null>(null);
   const cameraRef = useRef<Camera | null>(null);
   const inputHandlerRef = useRef<InputHandler | null>(null);
+  const clockRef = useRef<SimulationClock | null>(null);
+  const workersRef = useRef<SimulationWorkers | null>(null);
   const animationIdRef = useRef<number>(0);
   const lastTimeRef = useRef<number>(0);
   const fpsCounterRef = useRef({ frameCount: 0, lastTime: 0, fps: 0 });
+  const lastInspectTimeRef = useRef<number>(0);
+  const lastLegendTimeRef = useRef<number>(0);
+  const colorValuesRef = useRef<Float32Array>(new Float32Array(0));
+  const colorModeRef = useRef<ColorMode>("species");
+  const colorScaleRef = useRef<number | null>(null);
+  const densityLodRef = useRef<boolean>(false);
+  // Indices of the particles in view, reused between frames
+  const visibleIndicesRef = useRef<Uint32Array>(new Uint32Array(0));
+  // Particle system and revision whose colors and sizes the renderer has
+  const uploadedAppearanceRef = useRef<{
+    particleSystem: ParticleSystem | null;
+    revision: number;
+  }>({ particleSystem: null, revision: 0 });
+
+  // Latest settings, read when the systems are (re)created
+  const settingsRef = useRef({
+    seed,
+    particleCount,
+    colorCount,
+    physics,
+    forceKernel,
+    kernelParameters,
+    boundaryMode,
+    integrator,
+    substeps,
+    colorMatrix,
+    species,
+    palette,
+    radiusMatrix,
+    repulsionMatrix,
+    paused,
+    timeScale,
+    tool,
+    brush,
+    selectedParticle,
+    followSelection,
+    bookmarks,
+    panFriction,
+    renderSettings,
+  });
+  settingsRef.current = {
+    seed,
+    particleCount,
+    colorCount,
+    physics,
+    forceKernel,
+    kernelParameters,
+    boundaryMode,
+    integrator,
+    substeps,
+    colorMatrix,
+    species,
+    palette,
+    radiusMatrix,
+    repulsionMatrix,
+    paused,
+    timeScale,
+    tool,
+    brush,
+    selectedParticle,
+    followSelection,
+    bookmarks,
+    panFriction,
+    renderSettings,
+  };
+
+  // Latest callbacks for the input handler and the animation loop, which
+  // are created once
+  const callbacksRef = useRef({
+    onBrushChange,
+    onParticleCountChange,
+    onSelectParticle,
+    onFollowChange,
+    onInspect,
+    onColorScaleChange,
+  });
+  callbacksRef.current = {
+    onBrushChange,
+    onParticleCountChange,
+    onSelectParticle,
+    onFollowChange,
+    onInspect,
+    onColorScaleChange,
+  };
+
+  // Apply a change to the particle system, deferred while workers are
+  // in the middle of a batch
+  const updateParticleSystem = useCallback(
+    (change: (particleSystem: ParticleSystem) => void) => {
+      if (workersRef.current) {
+        workersRef.current.update(change);
+      } else if (particleSystemRef.current) {
+        change(particleSystemRef.current);
+      }
+    },
+    [],
+  );
 
   const handleResize = useCallback(() => {
     const canvas = canvasRef.current;
@@ -53,6 +291,35 @@ export const Canvas: React.FC<ParticleCanvasProps> = ({
     }
   }, []);
 
+  // Flying the camera elsewhere ends following the selection, which would
+  // otherwise pull the camera back every frame
+  const stopFollowing = useCallback(() => {
+    if (settingsRef.current.followSelection) {
+      callbacksRef.current.onFollowChange?.(false);
+    }
+  }, []);
+
+  // Select the particle nearest to a clicked world position, or nothing
+  const pickParticle = useCallback(
+    (position: { x: number; y: number }) => {
+      const zoom = cameraRef.current?.zoom ?? 1;
+
+      updateParticleSystem((particleSystem) => {
+        const index = particleSystem.findNearestParticle(
+          position.x,
+          position.y,
+          PICK_RADIUS / zoom,
+        );
+        const { onSelectParticle, onInspect } = callbacksRef.current;
+        onSelectParticle?.(
+          index >= 0 ? particleSystem.getParticleId(index) : null,
+        );
+        onInspect?.(particleSystem.getParticleInfo(index));
+      });
+    },
+    [updateParticleSystem],
+  );
+
   // FPS calculation
   const updateFps = useCallback(
     (currentTime: number) => {
@@ -74,26 +341,7 @@ export const Canvas: React.FC<ParticleCanvasProps> = ({
     [onFpsUpdate],
   );
 
-  // Update particle system when relevant props change
-  useEffect(() => {
-    if (!particleSystemRef.current) return;
-
-    // Update color matrix
-    for (let i = 0; i < colorCount; i++) {
-      for (let j = 0; j < colorCount; j++) {
-        particleSystemRef.current.setColorRule(i, j, colorMatrix[i][j]);
-      }
-    }
-
-    // Update other parameters
-    particleSystemRef.current.setSensingRadius(sensingRadius);
-    // TODO: Add these methods to ParticleSystem if needed
-    // particleSystemRef.current.setForceScale(forceScale);
-    // particleSystemRef.current.setMaxSpeed(maxSpeed);
-    // particleSystemRef.current.setDamping(damping);
-  }, [colorMatrix, sensingRadius, forceScale, maxSpeed, damping, colorCount]);
-
-  // Initialize and recreate particle system when particle count or color count changes
+  // Initialize all systems once; later setting changes are applied in place
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -101,35 +349,79 @@ export const Canvas: React.FC<ParticleCanvasProps> = ({
     // Set initial size
     handleResize();
 
+    const settings = settingsRef.current;
+
     try {
       // Initialize camera first
       cameraRef.current = new Camera(0, 0, 1.0);
       cameraRef.current.setScreenSize(canvas.width, canvas.height);
       cameraRef.current.setZoomConstraints(0.1, 10.0);
+      cameraRef.current.setPanFriction(settings.panFriction);
 
       // Initialize WebGL renderer
       rendererRef.current = new WebGLRenderer(canvas);
       rendererRef.current.resize(canvas.width, canvas.height);
+      rendererRef.current.setRenderSettings(settings.renderSettings);
 
       // Initialize particle system
       const worldSize = Math.max(canvas.width, canvas.height) * 4;
       particleSystemRef.current = new ParticleSystem({
-        particleCount,
+        particleCount: settings.particleCount,
         worldSize: { width: worldSize, height: worldSize },
-        colorCount,
-        sensingRadius,
-        betaDistance: 15,
+        colorCount: settings.colorCount,
+        ...settings.physics,
+        boundaryMode: settings.boundaryMode,
+        integrator: settings.integrator,
+        forceKernel: settings.forceKernel,
+        kernelParameters: settings.kernelParameters,
+        seed: settings.seed,
+        shared: SimulationWorkers.isSupported(),
       });
 
-      // Apply the color matrix
-      for (let i = 0; i < colorCount; i++) {
-        for (let j = 0; j < colorCount; j++) {
-          particleSystemRef.current.setColorRule(i, j, colorMatrix[i][j]);
+      // Fixed-timestep scheduler driving the physics
+      clockRef.current = new SimulationClock({
+        substeps: settings.substeps,
+        timeScale: settings.timeScale,
+        paused: settings.paused,
+      });
+      rendererRef.current.setBoundary(
+        particleSystemRef.current.getBoundaryShape(),
+      );
+
+      // Apply the color matrix and per-pair radii
+      for (let i = 0; i < settings.colorCount; i++) {
+        for (let j = 0; j < settings.colorCount; j++) {
+          particleSystemRef.current.setColorRule(
+            i,
+            j,
+            settings.colorMatrix[i][j],
+          );
+          particleSystemRef.current.setRadiusScale(
+            i,
+            j,
+            settings.radiusMatrix[i][j],
+          );
+          particleSystemRef.current.setRepulsionScale(
+            i,
+            j,
+            settings.repulsionMatrix[i][j],
+          );
         }
       }
 
+      particleSystemRef.current.setPalette(settings.palette);
+      settings.species.forEach((properties, colorIndex) =>
+        particleSystemRef.current?.setSpeciesProperties(colorIndex, properties),
+      );
+
       // Initialize input handler
-      inputHandlerRef.current = new InputHandler(cameraRef.current, canvas);
+      inputHandlerRef.current = new InputHandler(cameraRef.current, canvas, {
+        onBrushChange: (brush) => callbacksRef.current.onBrushChange?.(brush),
+        onPick: pickParticle,
+        onCameraReset: stopFollowing,
+      });
+      inputHandlerRef.current.setTool(settings.tool);
+      inputHandlerRef.current.setBrush(settings.brush);
 
       console.log("All systems initialized successfully");
     } catch (error) {
@@ -139,10 +431,7 @@ export const Canvas: React.FC<ParticleCanvasProps> = ({
 
     // Animation loop
     const animate = (currentTime: number) => {
-      const deltaTime = Math.min(
-        (currentTime - lastTimeRef.current) / 1000,
-        0.1,
-      );
+      const frameTime = (currentTime - lastTimeRef.current) / 1000;
       lastTimeRef.current = currentTime;
 
       // Update FPS
@@ -151,22 +440,218 @@ export const Canvas: React.FC<ParticleCanvasProps> = ({
       if (
         particleSystemRef.current &&
         rendererRef.current &&
-        cameraRef.current
+        cameraRef.current &&
+        clockRef.current
       ) {
-        // Update particle physics
-        particleSystemRef.current.update(deltaTime);
+        const particleSystem = particleSystemRef.current;
+        const clock = clockRef.current;
+        const workers = workersRef.current;
+
+        // Run as many fixed steps as real time allows (none while paused,
+        // except explicitly requested single steps)
+        const steps = clock.advance(frameTime);
+
+        // Force brushes act in simulated time, so they pause with the world;
+        // the others edit the world in real time
+        const stroke = inputHandlerRef.current?.getBrushStroke();
+        if (stroke) {
+          const brushTime =
+            stroke.tool === "attract" || stroke.tool === "repel"
+              ? steps * clock.getStepSize()
+              : Math.min(frameTime, MAX_BRUSH_FRAME_TIME);
+
+          updateParticleSystem((system) => {
+            const countBefore = system.getParticleCount();
+            system.applyBrush(stroke, brushTime);
+
+            const countAfter = system.getParticleCount();
+            if (countAfter !== countBefore) {
+              callbacksRef.current.onParticleCountChange?.(countAfter);
+            }
+          });
+        }
+        let positions: Float32Array;
+        let count: number;
+
+        if (workers) {
+          // Workers run the steps in the background, render the last result
+          workers.advance(steps, clock.getStepSize(), clock.getSubsteps());
+          positions = workers.getInterpolatedPositions(clock.getAlpha());
+          count = workers.getParticleCount();
+        } else {
+          for (let step = 0; step < steps; step++) {
+            particleSystem.storePreviousPositions();
+            for (let substep = 0; substep < clock.getSubsteps(); substep++) {
+              particleSystem.update(clock.getStepSize());
+            }
+          }
+          positions = particleSystem.getInterpolatedPositions(clock.getAlpha());
+          count = particleSystem.getParticleCount();
+        }
+
+        const camera = cameraRef.current;
+        const renderer = rendererRef.current;
+        const { selectedParticle, followSelection } = settingsRef.current;
+
+        // Coast after a fling, or step an eased move
+        camera.update(frameTime);
+
+        // Removals move particles between slots, so look the selection up
+        const selectedIndex =
+          selectedParticle !== null
+            ? particleSystem.findParticleIndex(selectedParticle)
+            : -1;
+
+        if (selectedIndex >= 0 && selectedIndex < count) {
+          const x = positions[selectedIndex * 2];
+          const y = positions[selectedIndex * 2 + 1];
+
+          // Zoom animations keep the center, follow again once they end
+          if (followSelection && !camera.isAnimating()) {
+            followPosition(
+              camera,
+              x,
+              y,
+              frameTime,
+              particleSystem.getWorldBounds(),
+            );
+          }
+
+          const radius =
+            particleSystem.sizes[selectedIndex] / 2 +
+            SELECTION_MARGIN / camera.zoom;
+          renderer.setSelectionOutline(
+            camera.isPointVisible(x, y, radius) ? { x, y, radius } : null,
+          );
+
+          // Refresh the inspector a few times per second
+          if (currentTime - lastInspectTimeRef.current >= INSPECT_INTERVAL) {
+            lastInspectTimeRef.current = currentTime;
+            const id = particleSystem.getParticleId(selectedIndex);
+            updateParticleSystem((system) => {
+              const info = system.getParticleInfo(system.findParticleIndex(id));
+              if (!info) callbacksRef.current.onSelectParticle?.(null);
+              callbacksRef.current.onInspect?.(info);
+            });
+          }
+        } else {
+          renderer.setSelectionOutline(null);
+
+          // The selected particle was removed
+          if (selectedParticle !== null) {
+            callbacksRef.current.onSelectParticle?.(null);
+          }
+        }
+
+        // Color mode values are computed by the simulation, on a scale that
+        // follows the world's values
+        const colorMode = getColorModeInfo(
+          settingsRef.current.renderSettings.colorMode,
+        );
+        if (colorMode.value !== colorModeRef.current) {
+          colorModeRef.current = colorMode.value;
+          colorScaleRef.current = null;
+          lastLegendTimeRef.current = 0;
+          if (!colorMode.gradient) {
+            renderer.setColorMapping(null);
+            callbacksRef.current.onColorScaleChange?.(null);
+          }
+        }
+        if (colorMode.gradient) {
+          const values = particleSystem.getColorValues(
+            colorMode.value,
+            colorValuesRef.current,
+          );
+          colorValuesRef.current = values;
+
+          let range = colorMode.range;
+          if (!range) {
+            const target = getValueScale(
+              values,
+              particleSystem.getParticleCount(),
+            );
+            const previous = colorScaleRef.current ?? target;
+            const smoothing =
+              1 - Math.pow(1 - COLOR_SCALE_SMOOTHING, frameTime * 60);
+            colorScaleRef.current = previous + (target - previous) * smoothing;
+            range = { min: 0, max: colorScaleRef.current };
+          }
+
+          renderer.setColorMapping({
+            values,
+            ...range,
+            gradient: colorMode.gradient,
+          });
+
+          if (currentTime - lastLegendTimeRef.current >= LEGEND_INTERVAL) {
+            lastLegendTimeRef.current = currentTime;
+            callbacksRef.current.onColorScaleChange?.(range);
+          }
+        }
 
         // Get camera transform data
-        const cameraTransform = cameraRef.current.getTransformUniforms();
-
-        // Render particles with camera transformation
-        rendererRef.current.render(
-          particleSystemRef.current.positions,
-          particleSystemRef.current.colors,
-          particleSystemRef.current.sizes,
-          particleCount,
+        const cameraTransform = camera.getTransformUniforms();
+        renderer.setBrushOutline(
+          inputHandlerRef.current?.getBrushOutline() ?? null,
+        );
+
+        // Colors and sizes are only uploaded again after they changed
+        const appearanceRevision = particleSystem.getAppearanceRevision();
+        const uploaded = uploadedAppearanceRef.current;
+        if (
+          uploaded.particleSystem !== particleSystem ||
+          uploaded.revision !== appearanceRevision
+        ) {
+          renderer.markAttributesDirty();
+          uploadedAppearanceRef.current = {
+            particleSystem,
+            revision: appearanceRevision,
+          };
+        }
+
+        // Zoomed far out the world is drawn as a density map, otherwise only
+        // the particles in view
+        const world = particleSystem.getWorldBounds();
+        const spacing =
+          camera.zoom *
+          Math.sqrt((world.width * world.height) / Math.max(1, count));
+        densityLodRef.current =
+          settingsRef.current.renderSettings.densityLod &&
+          spacing <
+            DENSITY_LOD_SPACING *
+              (densityLodRef.current ? DENSITY_LOD_HYSTERESIS : 1);
+        renderer.setDensityLod(densityLodRef.current);
+
+        let visibleCount: number | null = null;
+        if (!densityLodRef.current) {
+          // Workers rebuild the grid after each batch; without them it is
+          // rebuilt here, which the next step would do anyway
+          if (!workers) particleSystem.refreshGrid();
+
+          const systemCount = particleSystem.getParticleCount();
+          if (visibleIndicesRef.current.length < systemCount) {
+            visibleIndicesRef.current = new Uint32Array(systemCount);
+          }
+          visibleCount = getVisibleParticles(
+            particleSystem,
+            camera,
+            visibleIndicesRef.current,
+          );
+        }
+        renderer.setVisibleParticles(
+          visibleCount === null ? null : visibleIndicesRef.current,
+          visibleCount ?? 0,
+        );
+
+        // Render particles with camera transformation, blended between steps
+        renderer.render(
+          positions,
+          particleSystem.colors,
+          particleSystem.sizes,
+          count,
           cameraTransform.cameraPosition,
           cameraTransform.cameraZoom,
+          frameTime,
         );
       }
 
@@ -194,25 +679,262 @@ export const Canvas: React.FC<ParticleCanvasProps> = ({
         rendererRef.current.dispose();
       }
     };
-  }, [particleCount, colorCount, handleResize, updateFps]);
+  }, [
+    handleResize,
+    updateFps,
+    updateParticleSystem,
+    pickParticle,
+    stopFollowing,
+  ]);
+
+  // Move the physics to worker threads, or back to the main thread
+  useEffect(() => {
+    const particleSystem = particleSystemRef.current;
+    if (
+      !particleSystem ||
+      workerCount === 0 ||
+      !SimulationWorkers.isSupported()
+    ) {
+      return;
+    }
+
+    const handleWorkerError = (error: Error) => {
+      console.error("Physics workers failed, using the main thread:", error);
+      workersRef.current = null;
+      particleSystem.storePreviousPositions();
+      onWorkerCountChange?.(0);
+    };
+
+    let workers: SimulationWorkers;
+    try {
+      workers = new SimulationWorkers(
+        particleSystem,
+        workerCount,
+        handleWorkerError,
+      );
+    } catch (error) {
+      handleWorkerError(
+        error instanceof Error ? error : new Error(String(error)),
+      );
+      return;
+    }
+    workersRef.current = workers;
+
+    return () => {
+      workers.dispose();
+      if (workersRef.current === workers) {
+        workersRef.current = null;
+      }
+      particleSystem.storePreviousPositions();
+    };
+  }, [workerCount, onWorkerCountChange]);
+
+  // Grow or shrink the running world instead of recreating it
+  useEffect(() => {
+    updateParticleSystem((particleSystem) =>
+      particleSystem.setParticleCount(particleCount),
+    );
+  }, [particleCount, updateParticleSystem]);
+
+  useEffect(() => {
+    updateParticleSystem((particleSystem) =>
+      particleSystem.setColorCount(colorCount),
+    );
+  }, [colorCount, updateParticleSystem]);
+
+  useEffect(() => {
+    updateParticleSystem((particleSystem) =>
+      particleSystem.setPalette(palette),
+    );
+  }, [palette, updateParticleSystem]);
+
+  // Update particle system when relevant props change
+  useEffect(() => {
+    clockRef.current?.setSubsteps(substeps);
+
+    updateParticleSystem((particleSystem) => {
+      // Update color matrix and per-pair radii
+      for (let i = 0; i < colorCount; i++) {
+        for (let j = 0; j < colorCount; j++) {
+          particleSystem.setColorRule(i, j, colorMatrix[i][j]);
+          particleSystem.setRadiusScale(i, j, radiusMatrix[i][j]);
+          particleSystem.setRepulsionScale(i, j, repulsionMatrix[i][j]);
+        }
+      }
+
+      species.forEach((properties, colorIndex) =>
+        particleSystem.setSpeciesProperties(colorIndex, properties),
+      );
+
+      // Update other parameters
+      particleSystem.setPhysicsParameters(physics);
+      particleSystem.setBoundaryMode(boundaryMode);
+      particleSystem.setIntegrator(integrator);
+      particleSystem.setForceKernel(forceKernel, kernelParameters);
+      rendererRef.current?.setBoundary(particleSystem.getBoundaryShape());
+    });
+  }, [
+    colorMatrix,
+    species,
+    radiusMatrix,
+    repulsionMatrix,
+    physics,
+    forceKernel,
+    kernelParameters,
+    boundaryMode,
+    integrator,
+    substeps,
+    colorCount,
+    updateParticleSystem,
+  ]);
+
+  useEffect(() => {
+    inputHandlerRef.current?.setTool(tool);
+  }, [tool]);
+
+  useEffect(() => {
+    inputHandlerRef.current?.setBrush(brush);
+  }, [brush]);
+
+  useEffect(() => {
+    cameraRef.current?.setPanFriction(panFriction);
+  }, [panFriction]);
+
+  useEffect(() => {
+    rendererRef.current?.setRenderSettings(renderSettings);
+  }, [renderSettings]);
+
+  // Playback state only affects the clock; camera and rendering keep running
+  useEffect(() => {
+    clockRef.current?.setPaused(paused);
+  }, [paused]);
+
+  useEffect(() => {
+    clockRef.current?.setTimeScale(timeScale);
+  }, [timeScale]);
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      resetWorld: (newSeed: number, colorCount?: number) => {
+        updateParticleSystem((particleSystem) => {
+          // Switch species first, so the new world matches a fresh start
+          if (colorCount !== undefined) {
+            particleSystem.setColorCount(colorCount);
+          }
+          particleSystem.reset(newSeed);
+        });
+        rendererRef.current?.clearTrails();
+      },
+      stepFrames: (count: number) => {
+        clockRef.current?.stepFrames(count);
+      },
+      captureSnapshot: () =>
+        new Promise<WorldSnapshot | null>((resolve) => {
+          const camera = cameraRef.current;
+          if (!camera || !particleSystemRef.current) {
+            resolve(null);
+            return;
+          }
+
+          // Waits for a running worker batch, so the copy is consistent
+          updateParticleSystem((particleSystem) => {
+            resolve({
+              particles: particleSystem.exportState(),
+              substeps: clockRef.current?.getSubsteps() ?? 1,
+              camera: camera.getView(),
+              bookmarks: settingsRef.current.bookmarks,
+            });
+          });
+        }),
+      loadSnapshot: (snapshot: WorldSnapshot) => {
+        updateParticleSystem((particleSystem) => {
+          particleSystem.importState(snapshot.particles);
+          rendererRef.current?.setBoundary(particleSystem.getBoundaryShape());
+        });
+
+        cameraRef.current?.setPosition(snapshot.camera.x, snapshot.camera.y);
+        cameraRef.current?.setZoom(snapshot.camera.zoom);
+        clockRef.current?.reset();
+        rendererRef.current?.clearTrails();
+      },
+      getCameraView: () => cameraRef.current?.getView() ?? null,
+      flyTo: (view: CameraView) => {
+        stopFollowing();
+        cameraRef.current?.flyTo(view);
+      },
+    }),
+    [updateParticleSystem, stopFollowing],
+  );
 
   // Add keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       if (!cameraRef.current) return;
 
+      // Don't steal keys while typing into a control panel field
+      const target = event.target as HTMLElement | null;
+      if (
+        target &&
+        (target.tagName === "INPUT" ||
+          target.tagName === "TEXTAREA" ||
+          target.tagName === "SELECT")
+      ) {
+        return;
+      }
+
+      // 1-9 fly to a bookmarked view, Shift + 1-9 saves the current one
+      // (by key code, since Shift changes the typed character)
+      const slot = getBookmarkSlot(event.code);
+      if (slot !== null) {
+        if (event.shiftKey) {
+          onBookmarkSave?.(slot);
+        } else {
+          const view = settingsRef.current.bookmarks[slot];
+          if (view) {
+            stopFollowing();
+            cameraRef.current.flyTo(view);
+          }
+        }
+        return;
+      }
+
+      // Zoom keys repeat from where the camera is heading, not where it is
+      const targetZoom = cameraRef.current.getTargetView().zoom;
+
       switch (event.key) {
         case "r":
         case "R":
-          cameraRef.current.reset();
+          stopFollowing();
+          cameraRef.current.reset(CAMERA_ANIMATION_DURATION);
           break;
         case "=":
         case "+":
-          cameraRef.current.setZoom(cameraRef.current.zoom * 1.2);
+          cameraRef.current.zoomTo(targetZoom * 1.2);
           break;
         case "-":
         case "_":
-          cameraRef.current.setZoom(cameraRef.current.zoom / 1.2);
+          cameraRef.current.zoomTo(targetZoom / 1.2);
+          break;
+        case "p":
+        case "P":
+          onPausedChange?.(!settingsRef.current.paused);
+          break;
+        case ".":
+        case ">":
+          // Single step: freeze the world first so the step is visible
+          onPausedChange?.(true);
+          clockRef.current?.stepFrames(1);
+          break;
+        case "[":
+          onTimeScaleChange?.(
+            clampTimeScale(settingsRef.current.timeScale / 2),
+          );
+          break;
+        case "]":
+          onTimeScaleChange?.(
+            clampTimeScale(settingsRef.current.timeScale * 2),
+          );
           break;
       }
     };
@@ -221,7 +943,7 @@ export const Canvas: React.FC<ParticleCanvasProps> = ({
     return () => {
       window.removeEventListener("keydown", handleKeyDown);
     };
-  }, []);
+  }, [onPausedChange, onTimeScaleChange, onBookmarkSave, stopFollowing]);
 
   return (
     <canvas
@@ -234,7 +956,72 @@ export const Canvas: React.FC<ParticleCanvasProps> = ({
         height: "100%",
         display: "block",
         cursor: "grab",
+        // Touch gestures are handled by InputHandler, not the browser
+        touchAction: "none",
       }}
     />
   );
 };
+
+/**
+ * Ease the camera towards a followed position, independent of the frame
+ * rate. Jumps of more than half the world (wrapping) are not animated.
+ */
+function followPosition(
+  camera: Camera,
+  x: number,
+  y: number,
+  frameTime: number,
+  worldSize: { width: number; height: number },
+): void {
+  if (
+    Math.abs(x - camera.position.x) > worldSize.width / 2 ||
+    Math.abs(y - camera.position.y) > worldSize.height / 2
+  ) {
+    camera.setPosition(x, y);
+    return;
+  }
+
+  const speed = 1 - Math.pow(1 - FOLLOW_SMOOTHING, frameTime * 60);
+  camera.moveTo(x, y, speed);
+}
+
+/**
+ * Write the particles in the viewport plus a margin into `out` and return
+ * how many there are, or null when most of the world is in view and every
+ * particle is drawn
+ */
+function getVisibleParticles(
+  particleSystem: ParticleSystem,
+  camera: Camera,
+  out: Uint32Array,
+): number | null {
+  const bounds = camera.getViewportBounds();
+  const world = particleSystem.getWorldBounds();
+  const margin =
+    CULL_MARGIN / camera.zoom +
+    SPECIES_PROPERTY_RANGES.size.max / 2 +
+    particleSystem.getPhysicsParameters().maxSpeed *
+      SPECIES_PROPERTY_RANGES.speedScale.max *
+      CULL_LOOKAHEAD;
+
+  const left = bounds.left - margin;
+  const right = bounds.right + margin;
+  const top = bounds.top - margin;
+  const bottom = bounds.bottom + margin;
+
+  if (
+    (right - left) * (bottom - top) >=
+    CULL_MAX_COVERAGE * world.width * world.height
+  ) {
+    return null;
+  }
+
+  return particleSystem.collectParticlesInRegion(left, right, top, bottom, out);
+}
+
+// Bookmark slot (0-8) for the digit keys 1-9, or null
+function getBookmarkSlot(code: string): number | null {
+  const match = /^Digit([1-9])$/.exec(code);
+  return match ? Number(match[1]) - 1 : null;
+}
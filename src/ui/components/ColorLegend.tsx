@@ -0,0 +1,64 @@
+import React from "react";
+import { getGradientCss, type ColorModeInfo } from "../simulation/ColorModes";
+
+interface ColorLegendProps {
+  mode: ColorModeInfo;
+  scale: { min: number; max: number };
+}
+
+const formatValue = (value: number, unit: string) =>
+  `${value >= 100 ? value.toFixed(0) : value.toFixed(1)}${unit}`;
+
+/**
+ * Floating gradient scale for the active color mode
+ */
+export const ColorLegend: React.FC<ColorLegendProps> = ({ mode, scale }) => {
+  const panelStyle: React.CSSProperties = {
+    position: "fixed",
+    left: "50%",
+    bottom: "20px",
+    transform: "translateX(-50%)",
+    width: "240px",
+    padding: "10px 12px",
+    background: "rgba(20, 20, 30, 0.95)",
+    backdropFilter: "blur(10px)",
+    border: "1px solid rgba(255, 255, 255, 0.1)",
+    borderRadius: "8px",
+    color: "white",
+    fontFamily: "monospace",
+    fontSize: "12px",
+    boxShadow: "0 4px 24px rgba(0, 0, 0, 0.4)",
+    zIndex: 100,
+    pointerEvents: "none",
+  };
+
+  const titleStyle: React.CSSProperties = {
+    marginBottom: "6px",
+    fontSize: "13px",
+    fontWeight: "bold",
+  };
+
+  const barStyle: React.CSSProperties = {
+    height: "10px",
+    borderRadius: "3px",
+    background: mode.gradient ? getGradientCss(mode.gradient) : "none",
+  };
+
+  const scaleStyle: React.CSSProperties = {
+    display: "flex",
+    justifyContent: "space-between",
+    marginTop: "4px",
+    opacity: 0.6,
+  };
+
+  return (
+    <div style={panelStyle}>
+      <div style={titleStyle}>{mode.label}</div>
+      <div style={barStyle} />
+      <div style={scaleStyle}>
+        <span>{formatValue(scale.min, mode.unit)}</span>
+        <span>{formatValue(scale.max, mode.unit)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React from "react";
+import type { ParticleInfo } from "../simulation/ParticleSystem";
+import { getPaletteColor } from "../simulation/Palette";
+
+interface ParticleInspectorProps {
+  info: ParticleInfo;
+  palette: Float32Array;
+  follow: boolean;
+  onFollowChange: (follow: boolean) => void;
+  onClose: () => void;
+}
+
+const formatVector = (vector: { x: number; y: number }) =>
+  `${vector.x.toFixed(1)}, ${vector.y.toFixed(1)}`;
+
+const formatLength = (vector: { x: number; y: number }) =>
+  Math.hypot(vector.x, vector.y).toFixed(1);
+
+/**
+ * Floating readout of the selected particle
+ */
+export const ParticleInspector: React.FC<ParticleInspectorProps> = ({
+  info,
+  palette,
+  follow,
+  onFollowChange,
+  onClose,
+}) => {
+  const panelStyle: React.CSSProperties = {
+    position: "fixed",
+    left: "20px",
+    bottom: "20px",
+    width: "220px",
+    padding: "12px",
+    background: "rgba(20, 20, 30, 0.95)",
+    backdropFilter: "blur(10px)",
+    border: "1px solid rgba(255, 255, 255, 0.1)",
+    borderRadius: "8px",
+    color: "white",
+    fontFamily: "monospace",
+    fontSize: "12px",
+    boxShadow: "0 4px 24px rgba(0, 0, 0, 0.4)",
+    zIndex: 100,
+  };
+
+  const headerStyle: React.CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    gap: "8px",
+    marginBottom: "10px",
+    fontSize: "13px",
+    fontWeight: "bold",
+  };
+
+  const swatchStyle: React.CSSProperties = {
+    width: "12px",
+    height: "12px",
+    borderRadius: "50%",
+    background: getPaletteColor(palette, info.colorIndex),
+  };
+
+  const closeButtonStyle: React.CSSProperties = {
+    marginLeft: "auto",
+    background: "none",
+    border: "none",
+    color: "white",
+    opacity: 0.6,
+    cursor: "pointer",
+    fontSize: "14px",
+  };
+
+  const rowStyle: React.CSSProperties = {
+    display: "flex",
+    justifyContent: "space-between",
+    marginBottom: "4px",
+  };
+
+  const labelStyle: React.CSSProperties = {
+    opacity: 0.6,
+  };
+
+  const followButtonStyle: React.CSSProperties = {
+    width: "100%",
+    marginTop: "8px",
+    background: follow
+      ? "rgba(100, 200, 100, 0.3)"
+      : "rgba(255, 255, 255, 0.1)",
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "4px",
+    color: "white",
+    padding: "4px 8px",
+    cursor: "pointer",
+    fontFamily: "monospace",
+    fontSize: "11px",
+  };
+
+  const rows: [string, string][] = [
+    ["Color", String(info.colorIndex)],
+    ["Position", formatVector(info.position)],
+    ["Velocity", formatVector(info.velocity)],
+    ["Speed", formatLength(info.velocity)],
+    ["Force", formatVector(info.force)],
+    ["Neighbors", String(info.neighborCount)],
+  ];
+
+  return (
+    <div style={panelStyle}>
+      <div style={headerStyle}>
+        <div style={swatchStyle}></div>
+        Particle #{info.id}
+        <button style={closeButtonStyle} onClick={onClose} title="Deselect">
+          ×
+        </button>
+      </div>
+
+      {rows.map(([label, value]) => (
+        <div key={label} style={rowStyle}>
+          <span style={labelStyle}>{label}</span>
+          <span>{value}</span>
+        </div>
+      ))}
+
+      <button style={followButtonStyle} onClick={() => onFollowChange(!follow)}>
+        {follow ? "Following" : "Follow"}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React from "react";
+import { ParameterSlider } from "./ParameterSlider";
+import { PAN_FRICTION_RANGE, type CameraView } from "../../simulation/Camera";
+
+interface CameraControlsProps {
+  bookmarks: (CameraView | null)[];
+  panFriction: number;
+  onBookmarkSave: (slot: number) => void;
+  onBookmarkRecall: (slot: number) => void;
+  onPanFrictionChange: (value: number) => void;
+}
+
+export const CameraControls: React.FC<CameraControlsProps> = ({
+  bookmarks,
+  panFriction,
+  onBookmarkSave,
+  onBookmarkRecall,
+  onPanFrictionChange,
+}) => {
+  const controlGroupStyle: React.CSSProperties = {
+    marginBottom: "16px",
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: "block",
+    fontSize: "13px",
+    marginBottom: "6px",
+    opacity: 0.8,
+  };
+
+  const bookmarkGridStyle: React.CSSProperties = {
+    display: "grid",
+    gridTemplateColumns: "repeat(9, 1fr)",
+    gap: "4px",
+  };
+
+  const bookmarkButtonStyle = (isSaved: boolean): React.CSSProperties => ({
+    background: isSaved
+      ? "rgba(255, 255, 255, 0.25)"
+      : "rgba(255, 255, 255, 0.05)",
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "4px",
+    color: "white",
+    padding: "4px 0",
+    cursor: "pointer",
+    fontSize: "11px",
+    fontWeight: isSaved ? "bold" : "normal",
+    opacity: isSaved ? 1 : 0.6,
+  });
+
+  const hintStyle: React.CSSProperties = {
+    fontSize: "11px",
+    opacity: 0.6,
+    marginTop: "6px",
+  };
+
+  // Empty slots save the current view; Shift overwrites a saved one
+  const handleBookmarkClick = (slot: number, shiftKey: boolean) => {
+    if (shiftKey || !bookmarks[slot]) {
+      onBookmarkSave(slot);
+    } else {
+      onBookmarkRecall(slot);
+    }
+  };
+
+  return (
+    <>
+      <ParameterSlider
+        label="Pan Friction"
+        value={panFriction}
+        {...PAN_FRICTION_RANGE}
+        onChange={onPanFrictionChange}
+        formatValue={(value) => value.toFixed(1)}
+      />
+
+      <div style={controlGroupStyle}>
+        <label style={labelStyle}>Bookmarks</label>
+        <div style={bookmarkGridStyle}>
+          {bookmarks.map((view, slot) => (
+            <button
+              key={slot}
+              style={bookmarkButtonStyle(view !== null)}
+              title={
+                view
+                  ? `Go to (${view.x.toFixed(0)}, ${view.y.toFixed(0)}) at ${view.zoom.toFixed(2)}×`
+                  : "Save the current view"
+              }
+              onClick={(event) => handleBookmarkClick(slot, event.shiftKey)}
+            >
+              {slot + 1}
+            </button>
+          ))}
+        </div>
+        <div style={hintStyle}>
+          Keys 1–9 fly to a bookmark • Shift + 1–9 saves the view • R resets the
+          camera • +/- zoom
+        </div>
+      </div>
+    </>
+  );
+};
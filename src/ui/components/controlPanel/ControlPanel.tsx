@@ -0,0 +1,268 @@
+import React, { useState, useRef, useCallback, useEffect } from "react";
+import { ControlPanelHeader } from "./ControlPanelHeader";
+import { ControlPanelContent } from "./ControlPanelContent";
+import type { BoundaryMode, Integrator } from "../../simulation/ParticleSystem";
+import type {
+  PhysicsParameters,
+  SpeciesProperties,
+} from "../../simulation/PhysicsParameters";
+import type { ForceKernelParameters } from "../../simulation/ForceKernels";
+import type { BrushSettings, ToolMode } from "../../simulation/Tools";
+import type { CameraView } from "../../simulation/Camera";
+import type { RenderSettings } from "../../simulation/RenderSettings";
+import type { Random } from "../../simulation/Random";
+
+interface ControlPanelProps {
+  particleCount: number;
+  colorCount: number;
+  physics: PhysicsParameters;
+  forceKernel: string;
+  kernelParameters: ForceKernelParameters;
+  boundaryMode: BoundaryMode;
+  integrator: Integrator;
+  substeps: number;
+  paused: boolean;
+  timeScale: number;
+  workerCount: number;
+  tool: ToolMode;
+  brush: BrushSettings;
+  bookmarks: (CameraView | null)[];
+  panFriction: number;
+  renderSettings: RenderSettings;
+  colorMatrix: number[][];
+  species: SpeciesProperties[];
+  palette: Float32Array;
+  radiusMatrix: number[][];
+  repulsionMatrix: number[][];
+  seed: number;
+  randomizeRandom: Random;
+  onParticleCountChange: (count: number) => void;
+  onColorCountChange: (count: number) => void;
+  onForceKernelChange: (id: string) => void;
+  onKernelParametersChange: (parameters: ForceKernelParameters) => void;
+  onPhysicsChange: (parameters: Partial<PhysicsParameters>) => void;
+  onBoundaryModeChange: (mode: BoundaryMode) => void;
+  onIntegratorChange: (integrator: Integrator) => void;
+  onSubstepsChange: (substeps: number) => void;
+  onPausedChange: (paused: boolean) => void;
+  onTimeScaleChange: (timeScale: number) => void;
+  onStep: (count: number) => void;
+  onWorkerCountChange: (count: number) => void;
+  onToolChange: (tool: ToolMode) => void;
+  onBrushChange: (brush: Partial<BrushSettings>) => void;
+  onBookmarkSave: (slot: number) => void;
+  onBookmarkRecall: (slot: number) => void;
+  onPanFrictionChange: (value: number) => void;
+  onRenderSettingsChange: (settings: Partial<RenderSettings>) => void;
+  onMatrixUpdate: (matrix: number[][]) => void;
+  onPaletteChange: (palette: Float32Array) => void;
+  onSpeciesChange: (
+    colorIndex: number,
+    properties: Partial<SpeciesProperties>,
+  ) => void;
+  onRadiusMatrixUpdate: (matrix: number[][]) => void;
+  onRepulsionMatrixUpdate: (matrix: number[][]) => void;
+  onSeedChange: (seed: number) => void;
+  onSaveSnapshot: () => void;
+  onOpenSnapshot: () => void;
+  snapshotError: string | null;
+  getShareCode: () => string | null;
+  onApplyShareCode: (code: string) => void;
+  shareCodeError: string | null;
+}
+
+export const ControlPanel: React.FC<ControlPanelProps> = ({
+  particleCount,
+  colorCount,
+  physics,
+  forceKernel,
+  kernelParameters,
+  boundaryMode,
+  integrator,
+  substeps,
+  paused,
+  timeScale,
+  workerCount,
+  tool,
+  brush,
+  bookmarks,
+  panFriction,
+  renderSettings,
+  colorMatrix,
+  species,
+  palette,
+  radiusMatrix,
+  repulsionMatrix,
+  seed,
+  randomizeRandom,
+  onParticleCountChange,
+  onColorCountChange,
+  onPhysicsChange,
+  onForceKernelChange,
+  onKernelParametersChange,
+  onBoundaryModeChange,
+  onIntegratorChange,
+  onSubstepsChange,
+  onPausedChange,
+  onTimeScaleChange,
+  onStep,
+  onWorkerCountChange,
+  onToolChange,
+  onBrushChange,
+  onBookmarkSave,
+  onBookmarkRecall,
+  onPanFrictionChange,
+  onRenderSettingsChange,
+  onMatrixUpdate,
+  onSpeciesChange,
+  onPaletteChange,
+  onRadiusMatrixUpdate,
+  onRepulsionMatrixUpdate,
+  onSeedChange,
+  onSaveSnapshot,
+  onOpenSnapshot,
+  snapshotError,
+  getShareCode,
+  onApplyShareCode,
+  shareCodeError,
+}) => {
+  const [isMinimized, setIsMinimized] = useState(false);
+  const [position, setPosition] = useState({ x: 20, y: 20 });
+  const [isDragging, setIsDragging] = useState(false);
+  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const handleMouseDown = useCallback(
+    (e: React.MouseEvent) => {
+      setIsDragging(true);
+      setDragStart({
+        x: e.clientX - position.x,
+        y: e.clientY - position.y,
+      });
+    },
+    [position],
+  );
+
+  const handleMouseMove = useCallback(
+    (e: MouseEvent) => {
+      if (!isDragging || !panelRef.current) return;
+
+      const newX = e.clientX - dragStart.x;
+      const newY = e.clientY - dragStart.y;
+
+      // Keep panel within viewport bounds
+      const panelRect = panelRef.current.getBoundingClientRect();
+      const maxX = window.innerWidth - panelRect.width - 20;
+      const maxY = window.innerHeight - panelRect.height - 20;
+
+      setPosition({
+        x: Math.max(20, Math.min(maxX, newX)),
+        y: Math.max(20, Math.min(maxY, newY)),
+      });
+    },
+    [isDragging, dragStart],
+  );
+
+  const handleMouseUp = useCallback(() => {
+    setIsDragging(false);
+  }, []);
+
+  useEffect(() => {
+    if (isDragging) {
+      document.addEventListener("mousemove", handleMouseMove);
+      document.addEventListener("mouseup", handleMouseUp);
+      return () => {
+        document.removeEventListener("mousemove", handleMouseMove);
+        document.removeEventListener("mouseup", handleMouseUp);
+      };
+    }
+  }, [isDragging, handleMouseMove, handleMouseUp]);
+
+  const panelStyle: React.CSSProperties = {
+    position: "fixed",
+    left: position.x, // Changed from right to left
+    top: position.y,
+    background: "rgba(20, 20, 30, 0.95)",
+    backdropFilter: "blur(10px)",
+    border: "1px solid rgba(255, 255, 255, 0.1)",
+    borderRadius: "8px",
+    color: "white",
+    fontFamily: "monospace",
+    width: isMinimized ? "auto" : "320px",
+    maxWidth: "90vw",
+    boxShadow: "0 4px 24px rgba(0, 0, 0, 0.4)",
+    transition: "width 0.3s ease",
+    cursor: isDragging ? "move" : "default",
+    userSelect: "none",
+    zIndex: 100,
+  };
+
+  return (
+    <div ref={panelRef} style={panelStyle}>
+      <ControlPanelHeader
+        isMinimized={isMinimized}
+        onToggleMinimize={() => setIsMinimized(!isMinimized)}
+        onMouseDown={handleMouseDown}
+        particleCount={particleCount}
+        colorCount={colorCount}
+      />
+      {!isMinimized && (
+        <ControlPanelContent
+          particleCount={particleCount}
+          colorCount={colorCount}
+          boundaryMode={boundaryMode}
+          integrator={integrator}
+          substeps={substeps}
+          paused={paused}
+          timeScale={timeScale}
+          workerCount={workerCount}
+          tool={tool}
+          brush={brush}
+          bookmarks={bookmarks}
+          panFriction={panFriction}
+          renderSettings={renderSettings}
+          physics={physics}
+          forceKernel={forceKernel}
+          kernelParameters={kernelParameters}
+          colorMatrix={colorMatrix}
+          species={species}
+          palette={palette}
+          radiusMatrix={radiusMatrix}
+          repulsionMatrix={repulsionMatrix}
+          seed={seed}
+          randomizeRandom={randomizeRandom}
+          onParticleCountChange={onParticleCountChange}
+          onColorCountChange={onColorCountChange}
+          onPhysicsChange={onPhysicsChange}
+          onForceKernelChange={onForceKernelChange}
+          onKernelParametersChange={onKernelParametersChange}
+          onBoundaryModeChange={onBoundaryModeChange}
+          onIntegratorChange={onIntegratorChange}
+          onSubstepsChange={onSubstepsChange}
+          onPausedChange={onPausedChange}
+          onTimeScaleChange={onTimeScaleChange}
+          onStep={onStep}
+          onWorkerCountChange={onWorkerCountChange}
+          onToolChange={onToolChange}
+          onBrushChange={onBrushChange}
+          onBookmarkSave={onBookmarkSave}
+          onBookmarkRecall={onBookmarkRecall}
+          onPanFrictionChange={onPanFrictionChange}
+          onRenderSettingsChange={onRenderSettingsChange}
+          onMatrixUpdate={onMatrixUpdate}
+          onSpeciesChange={onSpeciesChange}
+          onPaletteChange={onPaletteChange}
+          onRadiusMatrixUpdate={onRadiusMatrixUpdate}
+          onRepulsionMatrixUpdate={onRepulsionMatrixUpdate}
+          onSeedChange={onSeedChange}
+          onSaveSnapshot={onSaveSnapshot}
+          onOpenSnapshot={onOpenSnapshot}
+          snapshotError={snapshotError}
+          getShareCode={getShareCode}
+          onApplyShareCode={onApplyShareCode}
+          shareCodeError={shareCodeError}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,23 +1,168 @@
 import React from "react";
 import { InteractionMatrix } from "./InteractionMatrix";
+import { ParameterSlider } from "./ParameterSlider";
+import { SeedControl } from "./SeedControl";
+import { PlaybackControls } from "./PlaybackControls";
+import { SnapshotControls } from "./SnapshotControls";
+import { ShareControls } from "./ShareControls";
+import { ForceKernelControls } from "./ForceKernelControls";
+import { SpeciesTable } from "./SpeciesTable";
+import { PaletteEditor } from "./PaletteEditor";
+import { ToolControls } from "./ToolControls";
+import { CameraControls } from "./CameraControls";
+import { DisplayControls } from "./DisplayControls";
+import {
+  MAX_COLOR_COUNT,
+  MAX_PARTICLE_COUNT,
+  MIN_COLOR_COUNT,
+  type BoundaryMode,
+  type Integrator,
+} from "../../simulation/ParticleSystem";
+import {
+  PHYSICS_PARAMETER_RANGES,
+  type PhysicsParameters,
+  type SpeciesProperties,
+} from "../../simulation/PhysicsParameters";
+import { MAX_SUBSTEPS, MIN_SUBSTEPS } from "../../simulation/SimulationClock";
+import type { ForceKernelParameters } from "../../simulation/ForceKernels";
+import type { BrushSettings, ToolMode } from "../../simulation/Tools";
+import type { CameraView } from "../../simulation/Camera";
+import type { RenderSettings } from "../../simulation/RenderSettings";
+import type { Random } from "../../simulation/Random";
+import { SimulationWorkers } from "../../simulation/SimulationWorkers";
+
+const boundaryModeOptions: { value: BoundaryMode; label: string }[] = [
+  { value: "wrap", label: "Wrap-around" },
+  { value: "reflect", label: "Reflective walls" },
+  { value: "clamp", label: "Clamped walls" },
+  { value: "soft", label: "Soft walls" },
+  { value: "circle", label: "Circular arena" },
+  { value: "none", label: "Unbounded" },
+];
+
+const integratorOptions: { value: Integrator; label: string }[] = [
+  { value: "euler", label: "Semi-implicit Euler" },
+  { value: "verlet", label: "Velocity Verlet" },
+  { value: "rk4", label: "Runge-Kutta 4" },
+];
 
 interface ControlPanelContentProps {
   particleCount: number;
   colorCount: number;
+  boundaryMode: BoundaryMode;
+  integrator: Integrator;
+  substeps: number;
+  paused: boolean;
+  timeScale: number;
+  workerCount: number;
+  tool: ToolMode;
+  brush: BrushSettings;
+  bookmarks: (CameraView | null)[];
+  panFriction: number;
+  renderSettings: RenderSettings;
+  physics: PhysicsParameters;
+  forceKernel: string;
+  kernelParameters: ForceKernelParameters;
   colorMatrix: number[][];
+  species: SpeciesProperties[];
+  palette: Float32Array;
+  radiusMatrix: number[][];
+  repulsionMatrix: number[][];
+  seed: number;
+  randomizeRandom: Random;
   onParticleCountChange: (count: number) => void;
   onColorCountChange: (count: number) => void;
+  onForceKernelChange: (id: string) => void;
+  onKernelParametersChange: (parameters: ForceKernelParameters) => void;
+  onPhysicsChange: (parameters: Partial<PhysicsParameters>) => void;
+  onBoundaryModeChange: (mode: BoundaryMode) => void;
+  onIntegratorChange: (integrator: Integrator) => void;
+  onSubstepsChange: (substeps: number) => void;
+  onPausedChange: (paused: boolean) => void;
+  onTimeScaleChange: (timeScale: number) => void;
+  onStep: (count: number) => void;
+  onWorkerCountChange: (count: number) => void;
+  onToolChange: (tool: ToolMode) => void;
+  onBrushChange: (brush: Partial<BrushSettings>) => void;
+  onBookmarkSave: (slot: number) => void;
+  onBookmarkRecall: (slot: number) => void;
+  onPanFrictionChange: (value: number) => void;
+  onRenderSettingsChange: (settings: Partial<RenderSettings>) => void;
   onMatrixUpdate: (matrix: number[][]) => void;
+  onPaletteChange: (palette: Float32Array) => void;
+  onSpeciesChange: (
+    colorIndex: number,
+    properties: Partial<SpeciesProperties>,
+  ) => void;
+  onRadiusMatrixUpdate: (matrix: number[][]) => void;
+  onRepulsionMatrixUpdate: (matrix: number[][]) => void;
+  onSeedChange: (seed: number) => void;
+  onSaveSnapshot: () => void;
+  onOpenSnapshot: () => void;
+  snapshotError: string | null;
+  getShareCode: () => string | null;
+  onApplyShareCode: (code: string) => void;
+  shareCodeError: string | null;
 }
 
 export const ControlPanelContent: React.FC<ControlPanelContentProps> = ({
   particleCount,
   colorCount,
+  boundaryMode,
+  integrator,
+  substeps,
+  paused,
+  timeScale,
+  workerCount,
+  tool,
+  brush,
+  bookmarks,
+  panFriction,
+  renderSettings,
+  physics,
+  forceKernel,
+  kernelParameters,
   colorMatrix,
+  species,
+  palette,
+  radiusMatrix,
+  repulsionMatrix,
+  seed,
+  randomizeRandom,
   onParticleCountChange,
   onColorCountChange,
+  onPhysicsChange,
+  onForceKernelChange,
+  onKernelParametersChange,
+  onBoundaryModeChange,
+  onIntegratorChange,
+  onSubstepsChange,
+  onPausedChange,
+  onTimeScaleChange,
+  onStep,
+  onWorkerCountChange,
+  onToolChange,
+  onBrushChange,
+  onBookmarkSave,
+  onBookmarkRecall,
+  onPanFrictionChange,
+  onRenderSettingsChange,
   onMatrixUpdate,
+  onSpeciesChange,
+  onPaletteChange,
+  onRadiusMatrixUpdate,
+  onRepulsionMatrixUpdate,
+  onSeedChange,
+  onSaveSnapshot,
+  onOpenSnapshot,
+  snapshotError,
+  getShareCode,
+  onApplyShareCode,
+  shareCodeError,
 }) => {
+  // Worker threads need SharedArrayBuffer (cross-origin isolation)
+  const maxWorkerCount = SimulationWorkers.getMaxWorkerCount();
+
   const contentStyle: React.CSSProperties = {
     padding: "16px",
     maxHeight: "60vh",
@@ -35,65 +180,225 @@ export const ControlPanelContent: React.FC<ControlPanelContentProps> = ({
     opacity: 0.8,
   };
 
-  const sliderContainerStyle: React.CSSProperties = {
-    display: "flex",
-    alignItems: "center",
-    gap: "12px",
+  const sectionTitleStyle: React.CSSProperties = {
+    fontSize: "11px",
+    textTransform: "uppercase",
+    letterSpacing: "0.05em",
+    opacity: 0.6,
+    margin: "20px 0 12px",
   };
 
-  const sliderStyle: React.CSSProperties = {
-    flex: 1,
-    height: "4px",
-    background: "rgba(255, 255, 255, 0.2)",
-    borderRadius: "2px",
-    outline: "none",
+  const selectStyle: React.CSSProperties = {
+    width: "100%",
+    background: "rgba(255, 255, 255, 0.1)",
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "4px",
+    color: "white",
+    padding: "4px 8px",
+    fontFamily: "monospace",
+    fontSize: "12px",
     cursor: "pointer",
   };
 
-  const valueDisplayStyle: React.CSSProperties = {
-    fontSize: "13px",
-    minWidth: "50px",
-    textAlign: "right",
-  };
-
   return (
     <div style={contentStyle}>
+      <SeedControl seed={seed} onSeedChange={onSeedChange} />
+
+      <SnapshotControls
+        onSave={onSaveSnapshot}
+        onOpen={onOpenSnapshot}
+        error={snapshotError}
+      />
+
+      <ShareControls
+        getShareCode={getShareCode}
+        onApplyShareCode={onApplyShareCode}
+        error={shareCodeError}
+      />
+
+      <ParameterSlider
+        label="Particle Count"
+        value={particleCount}
+        min={100}
+        max={MAX_PARTICLE_COUNT}
+        step={100}
+        onChange={onParticleCountChange}
+      />
+
+      <ParameterSlider
+        label="Color Count"
+        value={colorCount}
+        min={MIN_COLOR_COUNT}
+        max={MAX_COLOR_COUNT}
+        step={1}
+        onChange={onColorCountChange}
+      />
+
       <div style={controlGroupStyle}>
-        <label style={labelStyle}>Particle Count</label>
-        <div style={sliderContainerStyle}>
-          <input
-            type="range"
-            min="100"
-            max="10000"
-            step="100"
-            value={particleCount}
-            onChange={(e) => onParticleCountChange(parseInt(e.target.value))}
-            style={sliderStyle}
-          />
-          <span style={valueDisplayStyle}>{particleCount}</span>
-        </div>
+        <label style={labelStyle}>Boundary</label>
+        <select
+          value={boundaryMode}
+          onChange={(e) => onBoundaryModeChange(e.target.value as BoundaryMode)}
+          style={selectStyle}
+        >
+          {boundaryModeOptions.map((option) => (
+            <option
+              key={option.value}
+              value={option.value}
+              style={{ background: "rgb(20, 20, 30)" }}
+            >
+              {option.label}
+            </option>
+          ))}
+        </select>
       </div>
 
+      <h4 style={sectionTitleStyle}>Tools</h4>
+
+      <ToolControls
+        tool={tool}
+        brush={brush}
+        colorCount={colorCount}
+        palette={palette}
+        onToolChange={onToolChange}
+        onBrushChange={onBrushChange}
+      />
+
+      <h4 style={sectionTitleStyle}>Camera</h4>
+
+      <CameraControls
+        bookmarks={bookmarks}
+        panFriction={panFriction}
+        onBookmarkSave={onBookmarkSave}
+        onBookmarkRecall={onBookmarkRecall}
+        onPanFrictionChange={onPanFrictionChange}
+      />
+
+      <h4 style={sectionTitleStyle}>Display</h4>
+
+      <DisplayControls
+        settings={renderSettings}
+        onChange={onRenderSettingsChange}
+      />
+
+      <h4 style={sectionTitleStyle}>Simulation</h4>
+
+      <PlaybackControls
+        paused={paused}
+        timeScale={timeScale}
+        onPausedChange={onPausedChange}
+        onTimeScaleChange={onTimeScaleChange}
+        onStep={onStep}
+      />
+
       <div style={controlGroupStyle}>
-        <label style={labelStyle}>Color Count</label>
-        <div style={sliderContainerStyle}>
-          <input
-            type="range"
-            min="2"
-            max="6"
-            step="1"
-            value={colorCount}
-            onChange={(e) => onColorCountChange(parseInt(e.target.value))}
-            style={sliderStyle}
-          />
-          <span style={valueDisplayStyle}>{colorCount}</span>
-        </div>
+        <label style={labelStyle}>Integrator</label>
+        <select
+          value={integrator}
+          onChange={(e) => onIntegratorChange(e.target.value as Integrator)}
+          style={selectStyle}
+        >
+          {integratorOptions.map((option) => (
+            <option
+              key={option.value}
+              value={option.value}
+              style={{ background: "rgb(20, 20, 30)" }}
+            >
+              {option.label}
+            </option>
+          ))}
+        </select>
       </div>
 
+      <ParameterSlider
+        label="Substeps"
+        value={substeps}
+        min={MIN_SUBSTEPS}
+        max={MAX_SUBSTEPS}
+        step={1}
+        onChange={onSubstepsChange}
+      />
+
+      {maxWorkerCount > 0 && (
+        <ParameterSlider
+          label="Worker Threads"
+          value={workerCount}
+          min={0}
+          max={maxWorkerCount}
+          step={1}
+          onChange={onWorkerCountChange}
+          formatValue={(value) => (value === 0 ? "off" : String(value))}
+        />
+      )}
+
+      <h4 style={sectionTitleStyle}>Physics</h4>
+
+      <ForceKernelControls
+        forceKernel={forceKernel}
+        kernelParameters={kernelParameters}
+        onForceKernelChange={onForceKernelChange}
+        onKernelParametersChange={onKernelParametersChange}
+      />
+
+      <ParameterSlider
+        label="Force Scale"
+        value={physics.forceScale}
+        {...PHYSICS_PARAMETER_RANGES.forceScale}
+        onChange={(value) => onPhysicsChange({ forceScale: value })}
+      />
+
+      <ParameterSlider
+        label="Max Speed"
+        value={physics.maxSpeed}
+        {...PHYSICS_PARAMETER_RANGES.maxSpeed}
+        onChange={(value) => onPhysicsChange({ maxSpeed: value })}
+      />
+
+      <ParameterSlider
+        label="Damping"
+        value={physics.damping}
+        {...PHYSICS_PARAMETER_RANGES.damping}
+        onChange={(value) => onPhysicsChange({ damping: value })}
+        formatValue={(value) => value.toFixed(3)}
+      />
+
+      <ParameterSlider
+        label="Sensing Radius"
+        value={physics.sensingRadius}
+        {...PHYSICS_PARAMETER_RANGES.sensingRadius}
+        onChange={(value) => onPhysicsChange({ sensingRadius: value })}
+      />
+
+      <ParameterSlider
+        label="Repulsion Distance"
+        value={physics.betaDistance}
+        {...PHYSICS_PARAMETER_RANGES.betaDistance}
+        onChange={(value) => onPhysicsChange({ betaDistance: value })}
+      />
+
+      <h4 style={sectionTitleStyle}>Species</h4>
+
+      <PaletteEditor palette={palette} onPaletteChange={onPaletteChange} />
+
+      <SpeciesTable
+        species={species}
+        palette={palette}
+        onSpeciesChange={onSpeciesChange}
+      />
+
       <InteractionMatrix
         colorCount={colorCount}
         colorMatrix={colorMatrix}
+        palette={palette}
+        radiusMatrix={radiusMatrix}
+        repulsionMatrix={repulsionMatrix}
+        physics={physics}
+        forceKernel={forceKernel}
+        kernelParameters={kernelParameters}
+        random={randomizeRandom}
         onMatrixUpdate={onMatrixUpdate}
+        onRadiusMatrixUpdate={onRadiusMatrixUpdate}
+        onRepulsionMatrixUpdate={onRepulsionMatrixUpdate}
       />
     </div>
   );
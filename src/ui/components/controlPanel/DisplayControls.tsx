@@ -0,0 +1,177 @@
+import React from "react";
+import { ParameterSlider } from "./ParameterSlider";
+import {
+  RENDER_SETTING_RANGES,
+  type RenderSettings,
+} from "../../simulation/RenderSettings";
+import { COLOR_MODES, type ColorMode } from "../../simulation/ColorModes";
+
+type Toggle =
+  "densityLod" | "trails" | "additiveBlending" | "bloom" | "toneMapping";
+
+// On/off switches: the level of detail, then the effects cheapest first
+// (each can be skipped on slow machines)
+const TOGGLES: { key: Toggle; label: string; title: string }[] = [
+  {
+    key: "densityLod",
+    label: "Density LOD",
+    title: "Draw a density map instead of every particle when zoomed far out",
+  },
+  {
+    key: "trails",
+    label: "Trails",
+    title: "Fade previous frames out instead of clearing them",
+  },
+  {
+    key: "additiveBlending",
+    label: "Additive",
+    title: "Overlapping particles add up to brighter than white (HDR)",
+  },
+  {
+    key: "bloom",
+    label: "Bloom",
+    title: "Glow around bright areas",
+  },
+  {
+    key: "toneMapping",
+    label: "Tone Map",
+    title: "Compress bright areas into the displayable range",
+  },
+];
+
+interface DisplayControlsProps {
+  settings: RenderSettings;
+  onChange: (settings: Partial<RenderSettings>) => void;
+}
+
+export const DisplayControls: React.FC<DisplayControlsProps> = ({
+  settings,
+  onChange,
+}) => {
+  const controlGroupStyle: React.CSSProperties = {
+    marginBottom: "16px",
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: "block",
+    fontSize: "13px",
+    marginBottom: "6px",
+    opacity: 0.8,
+  };
+
+  const selectStyle: React.CSSProperties = {
+    width: "100%",
+    background: "rgba(255, 255, 255, 0.1)",
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "4px",
+    color: "white",
+    padding: "4px 8px",
+    fontFamily: "monospace",
+    fontSize: "12px",
+    cursor: "pointer",
+  };
+
+  const toggleGridStyle: React.CSSProperties = {
+    display: "grid",
+    gridTemplateColumns: "repeat(2, 1fr)",
+    gap: "4px",
+  };
+
+  const toggleStyle = (isActive: boolean): React.CSSProperties => ({
+    background: isActive
+      ? "rgba(100, 200, 100, 0.3)"
+      : "rgba(255, 255, 255, 0.1)",
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "4px",
+    color: "white",
+    padding: "4px 10px",
+    cursor: "pointer",
+    fontSize: "11px",
+  });
+
+  return (
+    <>
+      <div style={controlGroupStyle}>
+        <label style={labelStyle}>Color By</label>
+        <select
+          value={settings.colorMode}
+          onChange={(e) => onChange({ colorMode: e.target.value as ColorMode })}
+          style={selectStyle}
+        >
+          {COLOR_MODES.map((option) => (
+            <option
+              key={option.value}
+              value={option.value}
+              style={{ background: "rgb(20, 20, 30)" }}
+            >
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div style={controlGroupStyle}>
+        <div style={toggleGridStyle}>
+          {TOGGLES.map(({ key, label, title }) => (
+            <button
+              key={key}
+              style={toggleStyle(settings[key])}
+              onClick={() => onChange({ [key]: !settings[key] })}
+              title={title}
+            >
+              {label}: {settings[key] ? "On" : "Off"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {settings.trails && (
+        <ParameterSlider
+          label="Trail Persistence"
+          value={settings.trailPersistence}
+          {...RENDER_SETTING_RANGES.trailPersistence}
+          onChange={(value) => onChange({ trailPersistence: value })}
+          formatValue={(value) => value.toFixed(2)}
+        />
+      )}
+
+      {settings.bloom && (
+        <>
+          <ParameterSlider
+            label="Bloom Threshold"
+            value={settings.bloomThreshold}
+            {...RENDER_SETTING_RANGES.bloomThreshold}
+            onChange={(value) => onChange({ bloomThreshold: value })}
+            formatValue={(value) => value.toFixed(2)}
+          />
+
+          <ParameterSlider
+            label="Bloom Radius"
+            value={settings.bloomRadius}
+            {...RENDER_SETTING_RANGES.bloomRadius}
+            onChange={(value) => onChange({ bloomRadius: value })}
+            formatValue={(value) => value.toFixed(1)}
+          />
+
+          <ParameterSlider
+            label="Bloom Intensity"
+            value={settings.bloomIntensity}
+            {...RENDER_SETTING_RANGES.bloomIntensity}
+            onChange={(value) => onChange({ bloomIntensity: value })}
+            formatValue={(value) => value.toFixed(2)}
+          />
+        </>
+      )}
+
+      {settings.toneMapping && (
+        <ParameterSlider
+          label="Exposure"
+          value={settings.exposure}
+          {...RENDER_SETTING_RANGES.exposure}
+          onChange={(value) => onChange({ exposure: value })}
+          formatValue={(value) => `${value.toFixed(2)}×`}
+        />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useMemo } from "react";
+import {
+  getForceKernel,
+  type ForceKernelParameters,
+} from "../../simulation/ForceKernels";
+
+/**
+ * One direction of a pair interaction, in world units
+ */
+export interface ForceCurve {
+  label: string;
+  color: string;
+  rule: number; // Attraction rule (-1..1)
+  radius: number; // Sensing radius
+  repulsion: number; // Radius of the repulsion zone
+}
+
+interface ForceCurvePlotProps {
+  forceKernel: string;
+  kernelParameters: ForceKernelParameters;
+  curves: ForceCurve[];
+  width?: number;
+  height?: number;
+}
+
+const SAMPLES = 96;
+const PADDING = { top: 6, right: 6, bottom: 14, left: 6 };
+
+/**
+ * Force-vs-distance chart of the active kernel. Positive values attract.
+ * Shades each curve's repulsion zone and marks its sensing radius.
+ */
+export const ForceCurvePlot: React.FC<ForceCurvePlotProps> = ({
+  forceKernel,
+  kernelParameters,
+  curves,
+  width = 196,
+  height = 100,
+}) => {
+  const kernel = getForceKernel(forceKernel);
+  const forceFunction = useMemo(
+    () => kernel.create(kernelParameters),
+    [kernel, kernelParameters],
+  );
+
+  const maxDistance = Math.max(1, ...curves.map((curve) => curve.radius));
+
+  // Repulsion zone as a fraction of the radius, limited like the simulation
+  // and the kernel limit it
+  const betas = curves.map((curve) =>
+    Math.max(
+      Math.min(curve.repulsion / curve.radius, 0.95),
+      kernel.minBeta ?? 0,
+    ),
+  );
+
+  // Sample each curve over the shared distance axis
+  const samples = curves.map((curve, index) => {
+    const beta = betas[index];
+    const values: number[] = [];
+    for (let k = 0; k <= SAMPLES; k++) {
+      const distance = (k / SAMPLES) * maxDistance;
+      values.push(
+        distance === 0 || distance >= curve.radius
+          ? 0
+          : forceFunction(distance / curve.radius, curve.rule, beta),
+      );
+    }
+    return values;
+  });
+
+  // Symmetric y-range so zero stays in the middle
+  const maxForce = Math.max(
+    1,
+    ...samples.flat().map((value) => Math.abs(value)),
+  );
+
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const toX = (distance: number) =>
+    PADDING.left + (distance / maxDistance) * plotWidth;
+  const toY = (force: number) =>
+    PADDING.top + (0.5 - force / (2 * maxForce)) * plotHeight;
+
+  const containerStyle: React.CSSProperties = {
+    marginBottom: "10px",
+  };
+
+  const legendStyle: React.CSSProperties = {
+    display: "flex",
+    justifyContent: "space-between",
+    fontSize: "10px",
+    opacity: 0.8,
+    marginTop: "2px",
+  };
+
+  return (
+    <div style={containerStyle}>
+      <svg width={width} height={height} style={{ display: "block" }}>
+        {/* Repulsion zones */}
+        {curves.map((curve, index) => (
+          <rect
+            key={`zone-${index}`}
+            x={toX(0)}
+            y={PADDING.top}
+            width={toX(betas[index] * curve.radius) - toX(0)}
+            height={plotHeight}
+            fill={curve.color}
+            opacity={0.08}
+          />
+        ))}
+
+        {/* Zero line */}
+        <line
+          x1={PADDING.left}
+          x2={width - PADDING.right}
+          y1={toY(0)}
+          y2={toY(0)}
+          stroke="rgba(255, 255, 255, 0.3)"
+        />
+
+        {/* Sensing radii */}
+        {curves.map((curve, index) => (
+          <line
+            key={`radius-${index}`}
+            x1={toX(curve.radius)}
+            x2={toX(curve.radius)}
+            y1={PADDING.top}
+            y2={PADDING.top + plotHeight}
+            stroke={curve.color}
+            strokeDasharray="2 2"
+            opacity={0.6}
+          />
+        ))}
+
+        {curves.map((curve, index) => (
+          <polyline
+            key={`curve-${index}`}
+            points={samples[index]
+              .map(
+                (value, k) =>
+                  `${toX((k / SAMPLES) * maxDistance)},${toY(value)}`,
+              )
+              .join(" ")}
+            fill="none"
+            stroke={curve.color}
+            strokeWidth={1.5}
+            strokeDasharray={index > 0 ? "4 2" : undefined}
+          />
+        ))}
+
+        <text
+          x={PADDING.left}
+          y={height - 2}
+          fontSize="9"
+          fill="rgba(255, 255, 255, 0.6)"
+        >
+          0
+        </text>
+        <text
+          x={width - PADDING.right}
+          y={height - 2}
+          fontSize="9"
+          fill="rgba(255, 255, 255, 0.6)"
+          textAnchor="end"
+        >
+          {Math.round(maxDistance)}px
+        </text>
+      </svg>
+
+      <div style={legendStyle}>
+        {curves.map((curve, index) => (
+          <span key={`legend-${index}`} style={{ color: curve.color }}>
+            {index > 0 ? "╌ " : "— "}
+            {curve.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
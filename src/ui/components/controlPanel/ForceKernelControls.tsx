@@ -0,0 +1,95 @@
+import React from "react";
+import { ParameterSlider } from "./ParameterSlider";
+import {
+  getForceKernel,
+  getForceKernels,
+  type ForceKernelParameters,
+} from "../../simulation/ForceKernels";
+
+interface ForceKernelControlsProps {
+  forceKernel: string;
+  kernelParameters: ForceKernelParameters;
+  onForceKernelChange: (id: string) => void;
+  onKernelParametersChange: (parameters: ForceKernelParameters) => void;
+}
+
+export const ForceKernelControls: React.FC<ForceKernelControlsProps> = ({
+  forceKernel,
+  kernelParameters,
+  onForceKernelChange,
+  onKernelParametersChange,
+}) => {
+  const kernel = getForceKernel(forceKernel);
+
+  const controlGroupStyle: React.CSSProperties = {
+    marginBottom: "16px",
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: "block",
+    fontSize: "13px",
+    marginBottom: "6px",
+    opacity: 0.8,
+  };
+
+  const selectStyle: React.CSSProperties = {
+    width: "100%",
+    background: "rgba(255, 255, 255, 0.1)",
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "4px",
+    color: "white",
+    padding: "4px 8px",
+    fontFamily: "monospace",
+    fontSize: "12px",
+    cursor: "pointer",
+  };
+
+  const descriptionStyle: React.CSSProperties = {
+    fontSize: "11px",
+    marginTop: "6px",
+    opacity: 0.6,
+  };
+
+  return (
+    <>
+      <div style={controlGroupStyle}>
+        <label style={labelStyle}>Force Kernel</label>
+        <select
+          value={kernel.id}
+          onChange={(e) => onForceKernelChange(e.target.value)}
+          style={selectStyle}
+        >
+          {getForceKernels().map((option) => (
+            <option
+              key={option.id}
+              value={option.id}
+              style={{ background: "rgb(20, 20, 30)" }}
+            >
+              {option.name}
+            </option>
+          ))}
+        </select>
+        <div style={descriptionStyle}>{kernel.description}</div>
+      </div>
+
+      {/* One slider per parameter the kernel declares */}
+      {kernel.parameters.map((parameter) => (
+        <ParameterSlider
+          key={`${kernel.id}-${parameter.key}`}
+          label={parameter.label}
+          value={kernelParameters[parameter.key] ?? parameter.defaultValue}
+          min={parameter.min}
+          max={parameter.max}
+          step={parameter.step}
+          onChange={(value) =>
+            onKernelParametersChange({
+              ...kernelParameters,
+              [parameter.key]: value,
+            })
+          }
+          formatValue={(value) => value.toFixed(2)}
+        />
+      ))}
+    </>
+  );
+};
@@ -1,20 +1,94 @@
 import React, { useState, useCallback, useEffect, useRef } from "react";
 import { createPortal } from "react-dom";
+import type { Random } from "../../simulation/Random";
+import {
+  PAIR_MATRIX_RANGES,
+  type PairMatrixKind,
+  type PhysicsParameters,
+} from "../../simulation/PhysicsParameters";
+import type { ForceKernelParameters } from "../../simulation/ForceKernels";
+import { getPaletteColor } from "../../simulation/Palette";
+import { ForceCurvePlot, type ForceCurve } from "./ForceCurvePlot";
 
 interface InteractionMatrixProps {
   colorCount: number;
   colorMatrix: number[][];
+  radiusMatrix: number[][];
+  repulsionMatrix: number[][];
+  physics: PhysicsParameters;
+  forceKernel: string;
+  kernelParameters: ForceKernelParameters;
+  palette: Float32Array;
+  random: Random;
   onMatrixUpdate: (matrix: number[][]) => void;
+  onRadiusMatrixUpdate: (matrix: number[][]) => void;
+  onRepulsionMatrixUpdate: (matrix: number[][]) => void;
 }
 
+// Tab labels and slider captions for each editable matrix
+const MATRIX_TABS: {
+  kind: PairMatrixKind;
+  label: string;
+  description: string;
+  valueLabel: string;
+  rangeLabels: [string, string, string];
+}[] = [
+  {
+    kind: "attraction",
+    label: "Attraction",
+    description: "Interaction Matrix (-1 to +1)",
+    valueLabel: "Interaction Strength",
+    rangeLabels: ["Repel (-1)", "Neutral (0)", "Attract (+1)"],
+  },
+  {
+    kind: "radius",
+    label: "Radius",
+    description: "Sensing radius multiplier (row senses column)",
+    valueLabel: "Sensing Radius",
+    rangeLabels: ["0.25×", "Default (1×)", "3×"],
+  },
+  {
+    kind: "repulsion",
+    label: "Repulsion",
+    description: "Repulsion zone multiplier",
+    valueLabel: "Repulsion Zone",
+    rangeLabels: ["None (0×)", "Default (1×)", "3×"],
+  },
+];
+
+// Grid zoom in pixels per cell; values are only printed when they fit
+const CELL_SIZE_RANGE = { min: 12, max: 40, step: 2 };
+const MIN_LABELLED_CELL_SIZE = 28;
+
+const NO_CHANGES: Record<PairMatrixKind, boolean> = {
+  attraction: false,
+  radius: false,
+  repulsion: false,
+};
+
 export const InteractionMatrix: React.FC<InteractionMatrixProps> = ({
   colorCount,
   colorMatrix,
+  radiusMatrix,
+  repulsionMatrix,
+  physics,
+  forceKernel,
+  kernelParameters,
+  palette,
+  random,
   onMatrixUpdate,
+  onRadiusMatrixUpdate,
+  onRepulsionMatrixUpdate,
 }) => {
-  // Local state for pending changes
-  const [pendingMatrix, setPendingMatrix] = useState<number[][]>([]);
-  const [hasChanges, setHasChanges] = useState(false);
+  // Which matrix the grid shows and edits
+  const [activeKind, setActiveKind] = useState<PairMatrixKind>("attraction");
+
+  // Local state for pending changes, per matrix
+  const [pendingMatrices, setPendingMatrices] = useState<
+    Record<PairMatrixKind, number[][]>
+  >({ attraction: [], radius: [], repulsion: [] });
+  const [changedKinds, setChangedKinds] = useState(NO_CHANGES);
+  const [cellSize, setCellSize] = useState(CELL_SIZE_RANGE.max);
   const [activeCell, setActiveCell] = useState<{
     row: number;
     col: number;
@@ -23,12 +97,37 @@ export const InteractionMatrix: React.FC<InteractionMatrixProps> = ({
 
   const matrixRef = useRef<HTMLDivElement>(null);
 
-  // Initialize pending matrix when colorMatrix changes
+  // Initialize pending matrices when the applied ones change
   useEffect(() => {
-    setPendingMatrix(colorMatrix.map((row) => [...row]));
-    setHasChanges(false);
+    setPendingMatrices((prev) => ({
+      ...prev,
+      attraction: colorMatrix.map((row) => [...row]),
+    }));
+    setChangedKinds((prev) => ({ ...prev, attraction: false }));
   }, [colorMatrix]);
 
+  useEffect(() => {
+    setPendingMatrices((prev) => ({
+      ...prev,
+      radius: radiusMatrix.map((row) => [...row]),
+    }));
+    setChangedKinds((prev) => ({ ...prev, radius: false }));
+  }, [radiusMatrix]);
+
+  useEffect(() => {
+    setPendingMatrices((prev) => ({
+      ...prev,
+      repulsion: repulsionMatrix.map((row) => [...row]),
+    }));
+    setChangedKinds((prev) => ({ ...prev, repulsion: false }));
+  }, [repulsionMatrix]);
+
+  const pendingMatrix = pendingMatrices[activeKind];
+  const range = PAIR_MATRIX_RANGES[activeKind];
+  const tab = MATRIX_TABS.find((entry) => entry.kind === activeKind)!;
+  const hasChanges =
+    changedKinds.attraction || changedKinds.radius || changedKinds.repulsion;
+
   // Close popup when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -50,26 +149,27 @@ export const InteractionMatrix: React.FC<InteractionMatrixProps> = ({
     }
   }, [activeCell]);
 
-  const getColorForIndex = (index: number): string => {
-    const hue = (index / colorCount) * 360;
-    return `hsl(${hue}, 70%, 50%)`;
-  };
-
   const handleValueChange = useCallback(
     (colorA: number, colorB: number, value: number) => {
-      const clampedValue = Math.max(-1, Math.min(1, value));
+      const { min, max } = PAIR_MATRIX_RANGES[activeKind];
+      const clampedValue = Math.max(min, Math.min(max, value));
 
-      setPendingMatrix((prev) => {
-        const newMatrix = prev.map((row) => [...row]);
+      setPendingMatrices((prev) => {
+        const newMatrix = prev[activeKind].map((row) => [...row]);
         newMatrix[colorA][colorB] = clampedValue;
-        return newMatrix;
+        return { ...prev, [activeKind]: newMatrix };
       });
 
-      setHasChanges(true);
+      setChangedKinds((prev) => ({ ...prev, [activeKind]: true }));
     },
-    [],
+    [activeKind],
   );
 
+  const handleTabChange = useCallback((kind: PairMatrixKind) => {
+    setActiveKind(kind);
+    setActiveCell(null);
+  }, []);
+
   const handleCellClick = useCallback(
     (row: number, col: number, event: React.MouseEvent) => {
       const cellElement = event.currentTarget as HTMLElement;
@@ -85,9 +185,28 @@ export const InteractionMatrix: React.FC<InteractionMatrixProps> = ({
   );
 
   const handleApplyChanges = useCallback(() => {
-    onMatrixUpdate(pendingMatrix);
-    setHasChanges(false);
-  }, [pendingMatrix, onMatrixUpdate]);
+    if (changedKinds.attraction) onMatrixUpdate(pendingMatrices.attraction);
+    if (changedKinds.radius) onRadiusMatrixUpdate(pendingMatrices.radius);
+    if (changedKinds.repulsion) {
+      onRepulsionMatrixUpdate(pendingMatrices.repulsion);
+    }
+    setChangedKinds(NO_CHANGES);
+  }, [
+    changedKinds,
+    pendingMatrices,
+    onMatrixUpdate,
+    onRadiusMatrixUpdate,
+    onRepulsionMatrixUpdate,
+  ]);
+
+  // Radius and repulsion tabs: back to the global slider values
+  const handleResetScales = useCallback(() => {
+    const newMatrix = Array.from({ length: colorCount }, () =>
+      new Array<number>(colorCount).fill(1),
+    );
+    setPendingMatrices((prev) => ({ ...prev, [activeKind]: newMatrix }));
+    setChangedKinds((prev) => ({ ...prev, [activeKind]: true }));
+  }, [activeKind, colorCount]);
 
   const handleRandomize = useCallback(() => {
     const newMatrix: number[][] = [];
@@ -97,15 +216,27 @@ export const InteractionMatrix: React.FC<InteractionMatrixProps> = ({
         if (i === j) {
           newMatrix[i][j] = -0.4;
         } else {
-          newMatrix[i][j] = (Math.random() - 0.5) * 2.0;
+          newMatrix[i][j] = (random.next() - 0.5) * 2.0;
         }
       }
     }
-    setPendingMatrix(newMatrix);
-    setHasChanges(true);
-  }, [colorCount]);
+    setPendingMatrices((prev) => ({ ...prev, attraction: newMatrix }));
+    setChangedKinds((prev) => ({ ...prev, attraction: true }));
+  }, [colorCount, random]);
 
   const getValueColor = (value: number): string => {
+    if (activeKind !== "attraction") {
+      // Multipliers: blue above the default, orange below
+      if (value > 1) {
+        const intensity = Math.min(1, (value - 1) / (range.max - 1));
+        return `rgba(100, 160, 255, ${0.2 + intensity * 0.3})`;
+      } else if (value < 1) {
+        const intensity = Math.min(1, (1 - value) / (1 - range.min));
+        return `rgba(255, 180, 80, ${0.2 + intensity * 0.3})`;
+      }
+      return "rgba(255, 255, 255, 0.1)";
+    }
+
     if (value > 0) {
       // Positive values: green gradient
       const intensity = Math.abs(value);
@@ -122,7 +253,7 @@ export const InteractionMatrix: React.FC<InteractionMatrixProps> = ({
 
   const calculateSliderPosition = (rect: DOMRect) => {
     const sliderWidth = 240;
-    const sliderHeight = 80;
+    const sliderHeight = 230;
     const margin = 10;
 
     // Start with position above the cell
@@ -149,10 +280,27 @@ export const InteractionMatrix: React.FC<InteractionMatrixProps> = ({
     return { top, left };
   };
 
+  // Force curves of the active pair in both directions, from the pending
+  // (not yet applied) values so they follow the slider
+  const getPairCurves = (row: number, col: number): ForceCurve[] => {
+    const curve = (from: number, to: number): ForceCurve => ({
+      label: `${from} → ${to}`,
+      color: getPaletteColor(palette, from),
+      rule: pendingMatrices.attraction[from]?.[to] ?? 0,
+      radius: physics.sensingRadius * (pendingMatrices.radius[from]?.[to] ?? 1),
+      repulsion:
+        physics.betaDistance * (pendingMatrices.repulsion[from]?.[to] ?? 1),
+    });
+
+    return row === col ? [curve(row, col)] : [curve(row, col), curve(col, row)];
+  };
+
   const renderSliderPopup = () => {
     if (!activeCell) return null;
 
-    const value = pendingMatrix[activeCell.row]?.[activeCell.col] || 0;
+    const value =
+      pendingMatrix[activeCell.row]?.[activeCell.col] ??
+      (activeKind === "attraction" ? 0 : 1);
     const position = calculateSliderPosition(activeCell.rect);
 
     // Calculate arrow position
@@ -198,7 +346,9 @@ export const InteractionMatrix: React.FC<InteractionMatrixProps> = ({
       width: "100%",
       height: "6px",
       background:
-        "linear-gradient(to right, #ff4444 0%, #ffffff 50%, #44ff44 100%)",
+        activeKind === "attraction"
+          ? "linear-gradient(to right, #ff4444 0%, #ffffff 50%, #44ff44 100%)"
+          : "linear-gradient(to right, #ffb450 0%, #ffffff 30%, #64a0ff 100%)",
       borderRadius: "3px",
       outline: "none",
       cursor: "pointer",
@@ -221,6 +371,12 @@ export const InteractionMatrix: React.FC<InteractionMatrixProps> = ({
           Color {activeCell.row} → Color {activeCell.col}
         </div>
 
+        <ForceCurvePlot
+          forceKernel={forceKernel}
+          kernelParameters={kernelParameters}
+          curves={getPairCurves(activeCell.row, activeCell.col)}
+        />
+
         <div
           style={{
             marginBottom: "8px",
@@ -229,14 +385,15 @@ export const InteractionMatrix: React.FC<InteractionMatrixProps> = ({
             opacity: 0.8,
           }}
         >
-          Interaction Strength: {value.toFixed(2)}
+          {tab.valueLabel}: {value.toFixed(2)}
+          {activeKind === "attraction" ? "" : "×"}
         </div>
 
         <input
           type="range"
-          min="-1"
-          max="1"
-          step="0.05"
+          min={range.min}
+          max={range.max}
+          step={range.step}
           value={value}
           onChange={(e) =>
             handleValueChange(
@@ -257,9 +414,9 @@ export const InteractionMatrix: React.FC<InteractionMatrixProps> = ({
             opacity: 0.7,
           }}
         >
-          <span>Repel (-1)</span>
-          <span>Neutral (0)</span>
-          <span>Attract (+1)</span>
+          {tab.rangeLabels.map((label) => (
+            <span key={label}>{label}</span>
+          ))}
         </div>
 
         <div
@@ -284,12 +441,27 @@ export const InteractionMatrix: React.FC<InteractionMatrixProps> = ({
 
   const gridStyle: React.CSSProperties = {
     display: "grid",
-    gridTemplateColumns: `20px repeat(${colorCount}, 40px)`,
-    gridTemplateRows: `20px repeat(${colorCount}, 40px)`,
+    gridTemplateColumns: `20px repeat(${colorCount}, ${cellSize}px)`,
+    gridTemplateRows: `20px repeat(${colorCount}, ${cellSize}px)`,
     gap: "1px",
+    width: "max-content",
+  };
+
+  const scrollStyle: React.CSSProperties = {
+    overflow: "auto",
+    maxHeight: "360px",
     marginBottom: "12px",
   };
 
+  const zoomStyle: React.CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    gap: "6px",
+    marginBottom: "8px",
+    fontSize: "11px",
+    opacity: 0.8,
+  };
+
   const cellStyle: React.CSSProperties = {
     width: "100%",
     height: "100%",
@@ -314,9 +486,10 @@ export const InteractionMatrix: React.FC<InteractionMatrixProps> = ({
     transform: isActive ? "scale(1.05)" : "scale(1)",
   });
 
+  const labelSize = Math.min(16, cellSize - 4);
   const colorLabelStyle = (color: string): React.CSSProperties => ({
-    width: "16px",
-    height: "16px",
+    width: `${labelSize}px`,
+    height: `${labelSize}px`,
     background: color,
     borderRadius: "2px",
     margin: "auto",
@@ -341,6 +514,17 @@ export const InteractionMatrix: React.FC<InteractionMatrixProps> = ({
     flexDirection: "column",
   };
 
+  const tabStyle = (isActive: boolean): React.CSSProperties => ({
+    ...buttonStyle,
+    flex: 1,
+    marginBottom: 0,
+    padding: "4px 6px",
+    background: isActive
+      ? "rgba(255, 255, 255, 0.25)"
+      : "rgba(255, 255, 255, 0.05)",
+    fontWeight: isActive ? "bold" : "normal",
+  });
+
   const applyButtonStyle: React.CSSProperties = {
     ...buttonStyle,
     background: hasChanges
@@ -353,47 +537,77 @@ export const InteractionMatrix: React.FC<InteractionMatrixProps> = ({
 
   return (
     <div style={containerStyle}>
+      <div style={{ display: "flex", gap: "4px", marginBottom: "8px" }}>
+        {MATRIX_TABS.map((entry) => (
+          <button
+            key={entry.kind}
+            style={tabStyle(entry.kind === activeKind)}
+            onClick={() => handleTabChange(entry.kind)}
+          >
+            {entry.label}
+            {changedKinds[entry.kind] ? " •" : ""}
+          </button>
+        ))}
+      </div>
+
       <div style={{ marginBottom: "8px", fontSize: "11px", opacity: 0.8 }}>
-        Interaction Matrix (-1 to +1) • Click cells to edit
+        {tab.description} • Click cells to edit
       </div>
 
-      <div ref={matrixRef} style={gridStyle}>
-        {/* Empty top-left cell */}
-        <div style={cellStyle}></div>
+      <div style={zoomStyle}>
+        <span>Zoom</span>
+        <input
+          type="range"
+          {...CELL_SIZE_RANGE}
+          value={cellSize}
+          onChange={(e) => setCellSize(parseInt(e.target.value, 10))}
+          style={{ flex: 1 }}
+        />
+      </div>
 
-        {/* Column headers */}
-        {Array.from({ length: colorCount }).map((_, i) => (
-          <div key={`col-${i}`} style={cellStyle}>
-            <div style={colorLabelStyle(getColorForIndex(i))}></div>
-          </div>
-        ))}
+      <div style={scrollStyle}>
+        <div ref={matrixRef} style={gridStyle}>
+          {/* Empty top-left cell */}
+          <div style={cellStyle}></div>
 
-        {/* Rows */}
-        {Array.from({ length: colorCount }).map((_, i) => (
-          <React.Fragment key={`row-${i}`}>
-            {/* Row header */}
-            <div style={cellStyle}>
-              <div style={colorLabelStyle(getColorForIndex(i))}></div>
+          {/* Column headers */}
+          {Array.from({ length: colorCount }).map((_, i) => (
+            <div key={`col-${i}`} style={cellStyle}>
+              <div style={colorLabelStyle(getPaletteColor(palette, i))}></div>
             </div>
-
-            {/* Matrix cells */}
-            {Array.from({ length: colorCount }).map((_, j) => {
-              const value = pendingMatrix[i]?.[j] || 0;
-              const isActive = activeCell?.row === i && activeCell?.col === j;
-
-              return (
-                <div
-                  key={`cell-${i}-${j}`}
-                  style={valueCellStyle(value, isActive)}
-                  onClick={(e) => handleCellClick(i, j, e)}
-                  data-matrix-cell
-                >
-                  {value.toFixed(1)}
-                </div>
-              );
-            })}
-          </React.Fragment>
-        ))}
+          ))}
+
+          {/* Rows */}
+          {Array.from({ length: colorCount }).map((_, i) => (
+            <React.Fragment key={`row-${i}`}>
+              {/* Row header */}
+              <div style={cellStyle}>
+                <div style={colorLabelStyle(getPaletteColor(palette, i))}></div>
+              </div>
+
+              {/* Matrix cells */}
+              {Array.from({ length: colorCount }).map((_, j) => {
+                const value =
+                  pendingMatrix[i]?.[j] ??
+                  (activeKind === "attraction" ? 0 : 1);
+                const isActive = activeCell?.row === i && activeCell?.col === j;
+
+                return (
+                  <div
+                    key={`cell-${i}-${j}`}
+                    style={valueCellStyle(value, isActive)}
+                    title={value.toFixed(2)}
+                    onClick={(e) => handleCellClick(i, j, e)}
+                    data-matrix-cell
+                  >
+                    {cellSize >= MIN_LABELLED_CELL_SIZE &&
+                      value.toFixed(activeKind === "attraction" ? 1 : 2)}
+                  </div>
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </div>
       </div>
 
       <div style={buttonContainerStyle}>
@@ -421,7 +635,9 @@ export const InteractionMatrix: React.FC<InteractionMatrixProps> = ({
 
         <button
           style={buttonStyle}
-          onClick={handleRandomize}
+          onClick={
+            activeKind === "attraction" ? handleRandomize : handleResetScales
+          }
           onMouseEnter={(e) => {
             e.currentTarget.style.background = "rgba(255, 255, 255, 0.2)";
             e.currentTarget.style.borderColor = "rgba(255, 255, 255, 0.4)";
@@ -431,7 +647,7 @@ export const InteractionMatrix: React.FC<InteractionMatrixProps> = ({
             e.currentTarget.style.borderColor = "rgba(255, 255, 255, 0.2)";
           }}
         >
-          Randomize Rules
+          {activeKind === "attraction" ? "Randomize Rules" : "Reset to 1×"}
         </button>
       </div>
 
@@ -0,0 +1,223 @@
+import React, { useState, useCallback, useMemo } from "react";
+import {
+  PALETTE_PRESETS,
+  createPalette,
+  getPaletteHex,
+  parseHexColor,
+  parsePaletteDefinition,
+  type PaletteDefinition,
+} from "../../simulation/Palette";
+
+interface PaletteEditorProps {
+  palette: Float32Array;
+  onPaletteChange: (palette: Float32Array) => void;
+}
+
+export const PaletteEditor: React.FC<PaletteEditorProps> = ({
+  palette,
+  onPaletteChange,
+}) => {
+  // Palettes imported in this session, listed after the presets
+  const [importedPalettes, setImportedPalettes] = useState<PaletteDefinition[]>(
+    [],
+  );
+  const [importText, setImportText] = useState("");
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const colorCount = Math.floor(palette.length / 3);
+  const palettes = useMemo(
+    () => [...PALETTE_PRESETS, ...importedPalettes],
+    [importedPalettes],
+  );
+
+  // Handler for choosing a preset or imported palette
+  const handlePresetChange = useCallback(
+    (index: number) => {
+      const definition = palettes[index];
+      if (definition) {
+        onPaletteChange(createPalette(definition, colorCount));
+      }
+    },
+    [palettes, colorCount, onPaletteChange],
+  );
+
+  // Handler for editing a single species color
+  const handleColorChange = useCallback(
+    (colorIndex: number, hex: string) => {
+      const rgb = parseHexColor(hex);
+      if (!rgb) return;
+
+      const newPalette = palette.slice();
+      newPalette.set(rgb, colorIndex * 3);
+      onPaletteChange(newPalette);
+    },
+    [palette, onPaletteChange],
+  );
+
+  // Handler for importing a pasted palette
+  const handleImport = useCallback(() => {
+    try {
+      const definition = parsePaletteDefinition(importText);
+      setImportedPalettes((prev) => [
+        ...prev.filter((entry) => entry.name !== definition.name),
+        definition,
+      ]);
+      onPaletteChange(createPalette(definition, colorCount));
+      setImportText("");
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  }, [importText, colorCount, onPaletteChange]);
+
+  const controlGroupStyle: React.CSSProperties = {
+    marginBottom: "16px",
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: "block",
+    fontSize: "13px",
+    marginBottom: "6px",
+    opacity: 0.8,
+  };
+
+  const selectStyle: React.CSSProperties = {
+    width: "100%",
+    background: "rgba(255, 255, 255, 0.1)",
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "4px",
+    color: "white",
+    padding: "4px 8px",
+    fontFamily: "monospace",
+    fontSize: "12px",
+    cursor: "pointer",
+    marginBottom: "8px",
+  };
+
+  const swatchGridStyle: React.CSSProperties = {
+    display: "flex",
+    flexWrap: "wrap",
+    gap: "4px",
+    marginBottom: "8px",
+  };
+
+  const swatchStyle: React.CSSProperties = {
+    width: "24px",
+    height: "24px",
+    padding: 0,
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "4px",
+    background: "none",
+    cursor: "pointer",
+  };
+
+  const rowStyle: React.CSSProperties = {
+    display: "flex",
+    gap: "6px",
+  };
+
+  const inputStyle: React.CSSProperties = {
+    flex: 1,
+    minWidth: 0,
+    background: "rgba(255, 255, 255, 0.1)",
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "4px",
+    color: "white",
+    padding: "4px 6px",
+    fontFamily: "monospace",
+    fontSize: "11px",
+  };
+
+  const errorStyle: React.CSSProperties = {
+    marginTop: "4px",
+    fontSize: "11px",
+    color: "#ff6b6b",
+  };
+
+  const hintStyle: React.CSSProperties = {
+    marginTop: "4px",
+    fontSize: "11px",
+    opacity: 0.5,
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    background: "rgba(255, 255, 255, 0.1)",
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "4px",
+    color: "white",
+    padding: "4px 10px",
+    cursor: "pointer",
+    fontSize: "11px",
+  };
+
+  return (
+    <div style={controlGroupStyle}>
+      <label style={labelStyle}>Palette</label>
+
+      <select
+        value=""
+        onChange={(e) => handlePresetChange(parseInt(e.target.value, 10))}
+        style={selectStyle}
+      >
+        <option value="" disabled style={{ background: "rgb(20, 20, 30)" }}>
+          Apply preset…
+        </option>
+        {palettes.map((definition, index) => (
+          <option
+            key={`${definition.name}-${index}`}
+            value={index}
+            style={{ background: "rgb(20, 20, 30)" }}
+          >
+            {definition.name}
+            {definition.colorblindSafe ? " (colorblind-safe)" : ""}
+          </option>
+        ))}
+      </select>
+
+      <div style={swatchGridStyle}>
+        {Array.from({ length: colorCount }).map((_, colorIndex) => (
+          <input
+            key={colorIndex}
+            type="color"
+            title={`Color ${colorIndex}`}
+            value={getPaletteHex(palette, colorIndex)}
+            onChange={(e) => handleColorChange(colorIndex, e.target.value)}
+            style={swatchStyle}
+          />
+        ))}
+      </div>
+
+      <div style={rowStyle}>
+        <input
+          type="text"
+          value={importText}
+          placeholder="Name: #e69f00 #56b4e9 …"
+          onChange={(e) => {
+            setImportText(e.target.value);
+            setImportError(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleImport();
+          }}
+          style={inputStyle}
+        />
+        <button
+          style={buttonStyle}
+          onClick={handleImport}
+          disabled={!importText.trim()}
+        >
+          Import
+        </button>
+      </div>
+      {importError ? (
+        <div style={errorStyle}>{importError}</div>
+      ) : (
+        importedPalettes.length > 0 && (
+          <div style={hintStyle}>
+            Imported palettes are kept for this session only
+          </div>
+        )
+      )}
+    </div>
+  );
+};
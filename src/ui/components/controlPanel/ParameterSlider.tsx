@@ -0,0 +1,73 @@
+import React from "react";
+
+interface ParameterSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+  formatValue?: (value: number) => string;
+}
+
+export const ParameterSlider: React.FC<ParameterSliderProps> = ({
+  label,
+  value,
+  min,
+  max,
+  step,
+  onChange,
+  formatValue,
+}) => {
+  const controlGroupStyle: React.CSSProperties = {
+    marginBottom: "16px",
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: "block",
+    fontSize: "13px",
+    marginBottom: "6px",
+    opacity: 0.8,
+  };
+
+  const sliderContainerStyle: React.CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    gap: "12px",
+  };
+
+  const sliderStyle: React.CSSProperties = {
+    flex: 1,
+    height: "4px",
+    background: "rgba(255, 255, 255, 0.2)",
+    borderRadius: "2px",
+    outline: "none",
+    cursor: "pointer",
+  };
+
+  const valueDisplayStyle: React.CSSProperties = {
+    fontSize: "13px",
+    minWidth: "50px",
+    textAlign: "right",
+  };
+
+  return (
+    <div style={controlGroupStyle}>
+      <label style={labelStyle}>{label}</label>
+      <div style={sliderContainerStyle}>
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={value}
+          onChange={(e) => onChange(parseFloat(e.target.value))}
+          style={sliderStyle}
+        />
+        <span style={valueDisplayStyle}>
+          {formatValue ? formatValue(value) : value}
+        </span>
+      </div>
+    </div>
+  );
+};
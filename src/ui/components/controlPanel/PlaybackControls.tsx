@@ -0,0 +1,101 @@
+import React, { useState } from "react";
+import { ParameterSlider } from "./ParameterSlider";
+import {
+  MIN_TIME_SCALE,
+  MAX_TIME_SCALE,
+} from "../../simulation/SimulationClock";
+
+interface PlaybackControlsProps {
+  paused: boolean;
+  timeScale: number;
+  onPausedChange: (paused: boolean) => void;
+  onTimeScaleChange: (timeScale: number) => void;
+  onStep: (count: number) => void;
+}
+
+export const PlaybackControls: React.FC<PlaybackControlsProps> = ({
+  paused,
+  timeScale,
+  onPausedChange,
+  onTimeScaleChange,
+  onStep,
+}) => {
+  const [stepCount, setStepCount] = useState(1);
+
+  const controlGroupStyle: React.CSSProperties = {
+    marginBottom: "16px",
+  };
+
+  const rowStyle: React.CSSProperties = {
+    display: "flex",
+    gap: "6px",
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    background: "rgba(255, 255, 255, 0.1)",
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "4px",
+    color: "white",
+    padding: "4px 10px",
+    cursor: "pointer",
+    fontSize: "11px",
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: "48px",
+    background: "rgba(255, 255, 255, 0.1)",
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "4px",
+    color: "white",
+    padding: "4px 6px",
+    fontFamily: "monospace",
+    fontSize: "12px",
+  };
+
+  return (
+    <>
+      <div style={controlGroupStyle}>
+        <div style={rowStyle}>
+          <button
+            style={{ ...buttonStyle, flex: 1 }}
+            onClick={() => onPausedChange(!paused)}
+            title="Pause or resume the simulation (P)"
+          >
+            {paused ? "Resume" : "Pause"}
+          </button>
+          <button
+            style={buttonStyle}
+            onClick={() => onStep(stepCount)}
+            title="Advance the paused simulation by N steps (. steps once)"
+          >
+            Step
+          </button>
+          <input
+            type="number"
+            min={1}
+            max={600}
+            value={stepCount}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              if (Number.isFinite(value)) {
+                setStepCount(Math.max(1, Math.min(600, value)));
+              }
+            }}
+            style={inputStyle}
+            title="Number of steps"
+          />
+        </div>
+      </div>
+
+      <ParameterSlider
+        label="Speed ([ / ])"
+        value={timeScale}
+        min={MIN_TIME_SCALE}
+        max={MAX_TIME_SCALE}
+        step={0.1}
+        onChange={onTimeScaleChange}
+        formatValue={(value) => `${value.toFixed(1)}×`}
+      />
+    </>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useState, useEffect } from "react";
+import { Random, parseSeed } from "../../simulation/Random";
+
+interface SeedControlProps {
+  seed: number;
+  onSeedChange: (seed: number) => void;
+}
+
+export const SeedControl: React.FC<SeedControlProps> = ({
+  seed,
+  onSeedChange,
+}) => {
+  const [text, setText] = useState(String(seed));
+
+  // Show the new seed whenever it changes from outside
+  useEffect(() => {
+    setText(String(seed));
+  }, [seed]);
+
+  const handleApply = () => {
+    if (text.trim() === "") return;
+    onSeedChange(parseSeed(text));
+  };
+
+  const controlGroupStyle: React.CSSProperties = {
+    marginBottom: "16px",
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: "block",
+    fontSize: "13px",
+    marginBottom: "6px",
+    opacity: 0.8,
+  };
+
+  const rowStyle: React.CSSProperties = {
+    display: "flex",
+    gap: "6px",
+  };
+
+  const inputStyle: React.CSSProperties = {
+    flex: 1,
+    minWidth: 0,
+    background: "rgba(255, 255, 255, 0.1)",
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "4px",
+    color: "white",
+    padding: "4px 8px",
+    fontFamily: "monospace",
+    fontSize: "12px",
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    background: "rgba(255, 255, 255, 0.1)",
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "4px",
+    color: "white",
+    padding: "4px 10px",
+    cursor: "pointer",
+    fontSize: "11px",
+  };
+
+  return (
+    <div style={controlGroupStyle}>
+      <label style={labelStyle}>Seed</label>
+      <div style={rowStyle}>
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleApply();
+          }}
+          style={inputStyle}
+          title="Number or any text"
+        />
+        <button
+          style={buttonStyle}
+          onClick={handleApply}
+          title="Regenerate the world from this seed"
+        >
+          Apply
+        </button>
+        <button
+          style={buttonStyle}
+          onClick={() => onSeedChange(Random.createSeed())}
+          title="New random seed"
+        >
+          New
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useState } from "react";
+
+interface ShareControlsProps {
+  getShareCode: () => string | null;
+  onApplyShareCode: (code: string) => void;
+  error: string | null; // Why the last applied code was rejected
+}
+
+export const ShareControls: React.FC<ShareControlsProps> = ({
+  getShareCode,
+  onApplyShareCode,
+  error,
+}) => {
+  const [text, setText] = useState("");
+
+  const handleCopy = () => {
+    const code = getShareCode();
+    if (!code) return;
+
+    setText(code);
+    navigator.clipboard?.writeText(code).catch((error) => {
+      console.error("Failed to copy share code:", error);
+    });
+  };
+
+  const handlePaste = async () => {
+    // Fall back to the text field when clipboard access is not allowed
+    let code = text;
+    try {
+      if (navigator.clipboard?.readText) {
+        code = (await navigator.clipboard.readText()) || text;
+      }
+    } catch {
+      // Keep the typed code
+    }
+
+    if (code.trim() === "") return;
+    setText(code.trim());
+    onApplyShareCode(code.trim());
+  };
+
+  const controlGroupStyle: React.CSSProperties = {
+    marginBottom: "16px",
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: "block",
+    fontSize: "13px",
+    marginBottom: "6px",
+    opacity: 0.8,
+  };
+
+  const rowStyle: React.CSSProperties = {
+    display: "flex",
+    gap: "6px",
+  };
+
+  const inputStyle: React.CSSProperties = {
+    flex: 1,
+    minWidth: 0,
+    background: "rgba(255, 255, 255, 0.1)",
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "4px",
+    color: "white",
+    padding: "4px 8px",
+    fontFamily: "monospace",
+    fontSize: "12px",
+  };
+
+  const errorStyle: React.CSSProperties = {
+    marginTop: "4px",
+    fontSize: "11px",
+    color: "#ff6b6b",
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    background: "rgba(255, 255, 255, 0.1)",
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "4px",
+    color: "white",
+    padding: "4px 10px",
+    cursor: "pointer",
+    fontSize: "11px",
+  };
+
+  return (
+    <div style={controlGroupStyle}>
+      <label style={labelStyle}>Share Code</label>
+      <div style={rowStyle}>
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && text.trim() !== "") {
+              onApplyShareCode(text.trim());
+            }
+          }}
+          style={inputStyle}
+          placeholder="Paste a code"
+          title="Rules, colors, physics and seed as a short code"
+        />
+        <button
+          style={buttonStyle}
+          onClick={handleCopy}
+          title="Copy the current rule set"
+        >
+          Copy
+        </button>
+        <button
+          style={buttonStyle}
+          onClick={handlePaste}
+          title="Load a rule set from the clipboard (or the text field)"
+        >
+          Paste
+        </button>
+      </div>
+      {error && <div style={errorStyle}>{error}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from "react";
+
+interface SnapshotControlsProps {
+  onSave: () => void;
+  onOpen: () => void;
+  error: string | null; // Why the last save or open failed
+}
+
+export const SnapshotControls: React.FC<SnapshotControlsProps> = ({
+  onSave,
+  onOpen,
+  error,
+}) => {
+  const controlGroupStyle: React.CSSProperties = {
+    marginBottom: "16px",
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: "block",
+    fontSize: "13px",
+    marginBottom: "6px",
+    opacity: 0.8,
+  };
+
+  const rowStyle: React.CSSProperties = {
+    display: "flex",
+    gap: "6px",
+  };
+
+  const errorStyle: React.CSSProperties = {
+    marginTop: "4px",
+    fontSize: "11px",
+    color: "#ff6b6b",
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    flex: 1,
+    background: "rgba(255, 255, 255, 0.1)",
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "4px",
+    color: "white",
+    padding: "4px 10px",
+    cursor: "pointer",
+    fontSize: "11px",
+  };
+
+  return (
+    <div style={controlGroupStyle}>
+      <label style={labelStyle}>Snapshot</label>
+      <div style={rowStyle}>
+        <button
+          style={buttonStyle}
+          onClick={onSave}
+          title="Save particles, rules, parameters and camera to a file"
+        >
+          Save
+        </button>
+        <button
+          style={buttonStyle}
+          onClick={onOpen}
+          title="Restore a saved snapshot"
+        >
+          Open
+        </button>
+      </div>
+      {error && <div style={errorStyle}>{error}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React from "react";
+import { getPaletteColor } from "../../simulation/Palette";
+import {
+  SPECIES_PROPERTY_RANGES,
+  type SpeciesProperties,
+} from "../../simulation/PhysicsParameters";
+
+interface SpeciesTableProps {
+  species: SpeciesProperties[];
+  palette: Float32Array;
+  onSpeciesChange: (
+    colorIndex: number,
+    properties: Partial<SpeciesProperties>,
+  ) => void;
+}
+
+const columns: { key: keyof SpeciesProperties; label: string }[] = [
+  { key: "mass", label: "Mass" },
+  { key: "size", label: "Size" },
+  { key: "speedScale", label: "Speed ×" },
+  { key: "frictionScale", label: "Friction ×" },
+];
+
+export const SpeciesTable: React.FC<SpeciesTableProps> = ({
+  species,
+  palette,
+  onSpeciesChange,
+}) => {
+  const controlGroupStyle: React.CSSProperties = {
+    marginBottom: "16px",
+  };
+
+  const tableStyle: React.CSSProperties = {
+    width: "100%",
+    borderCollapse: "collapse",
+    fontSize: "11px",
+  };
+
+  const headerCellStyle: React.CSSProperties = {
+    fontWeight: "normal",
+    opacity: 0.6,
+    textAlign: "left",
+    padding: "2px",
+  };
+
+  const cellStyle: React.CSSProperties = {
+    padding: "2px",
+  };
+
+  const swatchStyle = (color: string): React.CSSProperties => ({
+    width: "12px",
+    height: "12px",
+    background: color,
+    borderRadius: "2px",
+  });
+
+  const inputStyle: React.CSSProperties = {
+    width: "100%",
+    boxSizing: "border-box",
+    background: "rgba(255, 255, 255, 0.1)",
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "4px",
+    color: "white",
+    padding: "2px 4px",
+    fontFamily: "monospace",
+    fontSize: "11px",
+  };
+
+  return (
+    <div style={controlGroupStyle}>
+      <table style={tableStyle}>
+        <thead>
+          <tr>
+            <th style={headerCellStyle}></th>
+            {columns.map((column) => (
+              <th key={column.key} style={headerCellStyle}>
+                {column.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {species.map((properties, colorIndex) => (
+            <tr key={colorIndex}>
+              <td style={cellStyle}>
+                <div
+                  style={swatchStyle(getPaletteColor(palette, colorIndex))}
+                ></div>
+              </td>
+              {columns.map((column) => (
+                <td key={column.key} style={cellStyle}>
+                  <input
+                    type="number"
+                    value={properties[column.key]}
+                    {...SPECIES_PROPERTY_RANGES[column.key]}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (Number.isFinite(value)) {
+                        onSpeciesChange(colorIndex, { [column.key]: value });
+                      }
+                    }}
+                    style={inputStyle}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
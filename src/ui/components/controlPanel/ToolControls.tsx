@@ -0,0 +1,144 @@
+import React from "react";
+import { ParameterSlider } from "./ParameterSlider";
+import { getPaletteColor } from "../../simulation/Palette";
+import {
+  BRUSH_SETTING_RANGES,
+  TOOL_MODES,
+  type BrushSettings,
+  type ToolMode,
+} from "../../simulation/Tools";
+
+interface ToolControlsProps {
+  tool: ToolMode;
+  brush: BrushSettings;
+  colorCount: number;
+  palette: Float32Array;
+  onToolChange: (tool: ToolMode) => void;
+  onBrushChange: (brush: Partial<BrushSettings>) => void;
+}
+
+export const ToolControls: React.FC<ToolControlsProps> = ({
+  tool,
+  brush,
+  colorCount,
+  palette,
+  onToolChange,
+  onBrushChange,
+}) => {
+  const usesColor = tool === "spawn" || tool === "recolor";
+  const colorIndex = Math.min(brush.colorIndex, colorCount - 1);
+
+  const controlGroupStyle: React.CSSProperties = {
+    marginBottom: "16px",
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: "block",
+    fontSize: "13px",
+    marginBottom: "6px",
+    opacity: 0.8,
+  };
+
+  const toolGridStyle: React.CSSProperties = {
+    display: "grid",
+    gridTemplateColumns: "repeat(3, 1fr)",
+    gap: "4px",
+  };
+
+  const toolButtonStyle = (isActive: boolean): React.CSSProperties => ({
+    background: isActive
+      ? "rgba(255, 255, 255, 0.25)"
+      : "rgba(255, 255, 255, 0.05)",
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "4px",
+    color: "white",
+    padding: "4px 6px",
+    cursor: "pointer",
+    fontSize: "11px",
+    fontWeight: isActive ? "bold" : "normal",
+  });
+
+  const swatchGridStyle: React.CSSProperties = {
+    display: "flex",
+    flexWrap: "wrap",
+    gap: "4px",
+  };
+
+  const swatchStyle = (index: number): React.CSSProperties => ({
+    width: "18px",
+    height: "18px",
+    padding: 0,
+    background: getPaletteColor(palette, index),
+    border:
+      index === colorIndex
+        ? "2px solid white"
+        : "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "3px",
+    cursor: "pointer",
+  });
+
+  const hintStyle: React.CSSProperties = {
+    fontSize: "11px",
+    opacity: 0.6,
+    marginTop: "6px",
+  };
+
+  return (
+    <>
+      <div style={controlGroupStyle}>
+        <label style={labelStyle}>Mouse Tool</label>
+        <div style={toolGridStyle}>
+          {TOOL_MODES.map((option) => (
+            <button
+              key={option.value}
+              style={toolButtonStyle(option.value === tool)}
+              onClick={() => onToolChange(option.value)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div style={hintStyle}>
+          Click a particle with Pan to inspect it • Middle button or Space +
+          drag pans • Shift + wheel: radius • Alt + wheel: strength
+        </div>
+      </div>
+
+      {tool !== "pan" && (
+        <>
+          <ParameterSlider
+            label="Brush Radius"
+            value={brush.radius}
+            {...BRUSH_SETTING_RANGES.radius}
+            onChange={(value) => onBrushChange({ radius: value })}
+            formatValue={(value) => value.toFixed(0)}
+          />
+
+          <ParameterSlider
+            label={tool === "spawn" ? "Spawn Rate" : "Brush Strength"}
+            value={brush.strength}
+            {...BRUSH_SETTING_RANGES.strength}
+            onChange={(value) => onBrushChange({ strength: value })}
+            formatValue={(value) => value.toFixed(1)}
+          />
+        </>
+      )}
+
+      {usesColor && (
+        <div style={controlGroupStyle}>
+          <label style={labelStyle}>Brush Color</label>
+          <div style={swatchGridStyle}>
+            {Array.from({ length: colorCount }).map((_, index) => (
+              <button
+                key={index}
+                title={`Color ${index}`}
+                style={swatchStyle(index)}
+                onClick={() => onBrushChange({ colorIndex: index })}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
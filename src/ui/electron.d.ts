@@ -0,0 +1,18 @@
+// API exposed by the Electron preload script (absent when running in a browser)
+interface ElectronFileFilter {
+  name: string;
+  extensions: string[];
+}
+
+interface ElectronApi {
+  saveFile: (
+    data: Uint8Array,
+    defaultName: string,
+    filters: ElectronFileFilter[],
+  ) => Promise<boolean>;
+  openFile: (filters: ElectronFileFilter[]) => Promise<Uint8Array | null>;
+}
+
+interface Window {
+  electron?: ElectronApi;
+}
@@ -0,0 +1,64 @@
+export type FileFilter = ElectronFileFilter;
+
+/**
+ * Save binary data to a file. Uses the native dialog under Electron and a
+ * download in the browser. Resolves to false if the user cancelled.
+ */
+export async function saveFile(
+  data: ArrayBuffer,
+  fileName: string,
+  filter: FileFilter,
+): Promise<boolean> {
+  if (window.electron) {
+    return window.electron.saveFile(new Uint8Array(data), fileName, [filter]);
+  }
+
+  const url = URL.createObjectURL(
+    new Blob([data], { type: "application/octet-stream" }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+  return true;
+}
+
+/**
+ * Let the user pick a file and read it. Uses the native dialog under
+ * Electron and a file input in the browser. Resolves to null if cancelled.
+ */
+export async function openFile(
+  filter: FileFilter,
+): Promise<ArrayBuffer | null> {
+  if (window.electron) {
+    const data = await window.electron.openFile([filter]);
+    if (!data) return null;
+    return data.buffer.slice(
+      data.byteOffset,
+      data.byteOffset + data.byteLength,
+    ) as ArrayBuffer;
+  }
+
+  return new Promise((resolve, reject) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = filter.extensions
+      .map((extension) => `.${extension}`)
+      .join(",");
+
+    input.addEventListener("change", () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      file.arrayBuffer().then(resolve, reject);
+    });
+    input.addEventListener("cancel", () => resolve(null));
+
+    input.click();
+  });
+}
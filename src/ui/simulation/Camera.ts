@@ -1,7 +1,49 @@
+import type { ParameterRange } from "./PhysicsParameters";
+
+/**
+ * A camera position and zoom, e.g. a saved viewpoint
+ */
+export interface CameraView {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+// Number of viewpoint bookmarks (keys 1-9)
+export const BOOKMARK_SLOTS = 9;
+
+// Length of animated camera moves (zoom keys, reset, fly-to) in seconds
+export const CAMERA_ANIMATION_DURATION = 0.6;
+
+// Decay rate of kinetic panning per second; higher stops sooner
+export const DEFAULT_PAN_FRICTION = 5;
+export const PAN_FRICTION_RANGE: ParameterRange = {
+  min: 1,
+  max: 20,
+  step: 0.5,
+};
+
+// Flings slower than this (screen pixels per second) come to rest
+const MIN_FLING_SPEED = 5;
+
+interface CameraAnimation {
+  from: CameraView;
+  to: CameraView;
+  elapsed: number;
+  duration: number;
+}
+
 export class Camera {
   public position: { x: number; y: number };
   public zoom: number;
 
+  // Kinetic panning in world units per second, and its decay rate
+  private velocity: { x: number; y: number } = { x: 0, y: 0 };
+  private panFriction: number = DEFAULT_PAN_FRICTION;
+
+  // Eased move in progress, advanced by update()
+  private animation: CameraAnimation | null = null;
+
   // Zoom constraints
   private minZoom: number = 0.1;
   private maxZoom: number = 5.0;
@@ -55,6 +97,8 @@ export class Camera {
    * Pan the camera by screen pixel amounts
    */
   public pan(deltaScreenX: number, deltaScreenY: number): void {
+    this.animation = null;
+
     // Convert screen delta to world delta
     const worldDeltaX = deltaScreenX / this.zoom;
     const worldDeltaY = deltaScreenY / this.zoom;
@@ -67,6 +111,8 @@ export class Camera {
    * Zoom at a specific screen position (like mouse cursor)
    */
   public zoomAt(screenX: number, screenY: number, zoomDelta: number): void {
+    this.animation = null;
+
     // Get world position before zoom
     const worldPos = this.screenToWorld(screenX, screenY);
 
@@ -89,6 +135,7 @@ export class Camera {
    * Set zoom level while keeping center point stable
    */
   public setZoom(newZoom: number): void {
+    this.animation = null;
     this.zoom = Math.max(this.minZoom, Math.min(this.maxZoom, newZoom));
   }
 
@@ -149,12 +196,20 @@ export class Camera {
   }
 
   /**
-   * Reset camera to default position and zoom
+   * Reset camera to default position and zoom, eased over `duration`
+   * seconds (0 jumps)
+   */
+  public reset(duration: number = 0): void {
+    this.flyTo({ x: 0, y: 0, zoom: 1.0 }, duration);
+  }
+
+  /**
+   * Jump to a position
    */
-  public reset(): void {
-    this.position.x = 0;
-    this.position.y = 0;
-    this.zoom = 1.0;
+  public setPosition(x: number, y: number): void {
+    this.stop();
+    this.position.x = x;
+    this.position.y = y;
   }
 
   /**
@@ -165,6 +220,119 @@ export class Camera {
     this.position.y += (targetY - this.position.y) * speed;
   }
 
+  /**
+   * Ease to a position and zoom over `duration` seconds (0 jumps)
+   */
+  public flyTo(
+    view: CameraView,
+    duration: number = CAMERA_ANIMATION_DURATION,
+  ): void {
+    const to = {
+      x: view.x,
+      y: view.y,
+      zoom: Math.max(this.minZoom, Math.min(this.maxZoom, view.zoom)),
+    };
+
+    this.velocity = { x: 0, y: 0 };
+    if (duration <= 0) {
+      this.animation = null;
+      this.position = { x: to.x, y: to.y };
+      this.zoom = to.zoom;
+      return;
+    }
+
+    this.animation = { from: this.getView(), to, elapsed: 0, duration };
+  }
+
+  /**
+   * Ease to a zoom level around the current center
+   */
+  public zoomTo(
+    zoom: number,
+    duration: number = CAMERA_ANIMATION_DURATION,
+  ): void {
+    const target = this.getTargetView();
+    this.flyTo({ x: target.x, y: target.y, zoom }, duration);
+  }
+
+  /**
+   * Keep panning after a drag is released, given the drag's speed in
+   * screen pixels per second
+   */
+  public fling(screenVelocityX: number, screenVelocityY: number): void {
+    this.animation = null;
+    this.velocity = {
+      x: screenVelocityX / this.zoom,
+      y: screenVelocityY / this.zoom,
+    };
+  }
+
+  /**
+   * Whether an eased move (flyTo, zoomTo, reset) is in progress
+   */
+  public isAnimating(): boolean {
+    return this.animation !== null;
+  }
+
+  /**
+   * Cancel any animation or kinetic panning
+   */
+  public stop(): void {
+    this.animation = null;
+    this.velocity = { x: 0, y: 0 };
+  }
+
+  /**
+   * Advance animations and kinetic panning; call once per frame
+   */
+  public update(deltaTime: number): void {
+    const animation = this.animation;
+
+    if (animation) {
+      animation.elapsed += deltaTime;
+      const t = Math.min(1, animation.elapsed / animation.duration);
+      const eased = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+      const { from, to } = animation;
+
+      this.position.x = from.x + (to.x - from.x) * eased;
+      this.position.y = from.y + (to.y - from.y) * eased;
+      // Interpolate zoom geometrically so zooming in and out feel alike
+      this.zoom = from.zoom * Math.pow(to.zoom / from.zoom, eased);
+
+      if (t >= 1) this.animation = null;
+      return;
+    }
+
+    const speed = Math.hypot(this.velocity.x, this.velocity.y) * this.zoom;
+    if (speed < MIN_FLING_SPEED) {
+      this.velocity = { x: 0, y: 0 };
+      return;
+    }
+
+    // Same direction as pan(): the view follows the drag
+    this.position.x -= this.velocity.x * deltaTime;
+    this.position.y -= this.velocity.y * deltaTime;
+
+    const decay = Math.exp(-this.panFriction * deltaTime);
+    this.velocity.x *= decay;
+    this.velocity.y *= decay;
+  }
+
+  public setPanFriction(friction: number): void {
+    this.panFriction = Math.max(0, friction);
+  }
+
+  public getView(): CameraView {
+    return { x: this.position.x, y: this.position.y, zoom: this.zoom };
+  }
+
+  /**
+   * Where the camera is heading: the animation target, or the current view
+   */
+  public getTargetView(): CameraView {
+    return this.animation ? { ...this.animation.to } : this.getView();
+  }
+
   /**
    * Set zoom constraints
    */
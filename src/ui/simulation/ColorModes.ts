@@ -0,0 +1,151 @@
+/**
+ * What decides a particle's color on screen
+ * - species: the palette color of its species
+ * - speed: velocity magnitude
+ * - heading: direction of travel, around a color wheel
+ * - force: magnitude of the net force (per unit mass) of the last step
+ * - density: crowding within the largest sensing radius
+ * - neighbors: particles within its own sensing radii
+ */
+export type ColorMode =
+  "species" | "speed" | "heading" | "force" | "density" | "neighbors";
+
+// Color ramps as evenly spaced RGB stops, shared by the shader and legend
+export type GradientStops = [number, number, number][];
+
+// Dark blue to yellow, perceptually ordered (after viridis)
+export const SEQUENTIAL_GRADIENT: GradientStops = [
+  [0.267, 0.005, 0.329],
+  [0.231, 0.322, 0.545],
+  [0.129, 0.569, 0.549],
+  [0.369, 0.788, 0.384],
+  [0.992, 0.906, 0.145],
+];
+
+// Hue wheel that ends where it starts, for angles
+export const CYCLIC_GRADIENT: GradientStops = [
+  [1.0, 0.2, 0.2],
+  [1.0, 0.9, 0.2],
+  [0.2, 0.9, 0.3],
+  [0.2, 0.8, 1.0],
+  [0.4, 0.3, 1.0],
+  [1.0, 0.3, 0.9],
+  [1.0, 0.2, 0.2],
+];
+
+export interface ColorModeInfo {
+  value: ColorMode;
+  label: string;
+  unit: string; // Shown with the legend values
+  // Fixed value range; null scales from 0 to the world's typical maximum
+  range: { min: number; max: number } | null;
+  gradient: GradientStops | null; // null for palette colors
+}
+
+export const COLOR_MODES: ColorModeInfo[] = [
+  {
+    value: "species",
+    label: "Species",
+    unit: "",
+    range: null,
+    gradient: null,
+  },
+  {
+    value: "speed",
+    label: "Speed",
+    unit: "/s",
+    range: null,
+    gradient: SEQUENTIAL_GRADIENT,
+  },
+  {
+    value: "heading",
+    label: "Heading",
+    unit: "°",
+    range: { min: 0, max: 360 },
+    gradient: CYCLIC_GRADIENT,
+  },
+  {
+    value: "force",
+    label: "Force",
+    unit: "",
+    range: null,
+    gradient: SEQUENTIAL_GRADIENT,
+  },
+  {
+    value: "density",
+    label: "Density",
+    unit: "",
+    range: null,
+    gradient: SEQUENTIAL_GRADIENT,
+  },
+  {
+    value: "neighbors",
+    label: "Neighbors",
+    unit: "",
+    range: null,
+    gradient: SEQUENTIAL_GRADIENT,
+  },
+];
+
+export function getColorModeInfo(mode: ColorMode): ColorModeInfo {
+  return COLOR_MODES.find((info) => info.value === mode) ?? COLOR_MODES[0];
+}
+
+/**
+ * Top of the scale for the first `count` values: about the 95th percentile
+ * (mean plus two standard deviations), so a few outliers don't wash out
+ * the rest
+ */
+export function getValueScale(values: Float32Array, count: number): number {
+  if (count === 0) return 1;
+
+  let sum = 0;
+  let sumSquares = 0;
+  let max = 0;
+  for (let i = 0; i < count; i++) {
+    const value = values[i];
+    sum += value;
+    sumSquares += value * value;
+    if (value > max) max = value;
+  }
+
+  const mean = sum / count;
+  const deviation = Math.sqrt(Math.max(0, sumSquares / count - mean * mean));
+  return Math.min(max, mean + 2 * deviation) || 1;
+}
+
+/**
+ * RGB triples at `size` evenly spaced points along a ramp, interpolated
+ * like the particle shader does
+ */
+export function createGradientTable(
+  stops: GradientStops,
+  size: number,
+): Float32Array {
+  const table = new Float32Array(size * 3);
+  const last = stops.length - 1;
+
+  for (let i = 0; i < size; i++) {
+    const position = (i / Math.max(1, size - 1)) * last;
+    const index = Math.min(Math.floor(position), Math.max(0, last - 1));
+    const fraction = Math.min(1, position - index);
+    const from = stops[index];
+    const to = stops[Math.min(index + 1, last)];
+    for (let c = 0; c < 3; c++) {
+      table[i * 3 + c] = from[c] + (to[c] - from[c]) * fraction;
+    }
+  }
+
+  return table;
+}
+
+/**
+ * CSS linear-gradient through a ramp's stops, left to right
+ */
+export function getGradientCss(stops: GradientStops): string {
+  const colors = stops.map(
+    ([r, g, b]) =>
+      `rgb(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)})`,
+  );
+  return `linear-gradient(to right, ${colors.join(", ")})`;
+}
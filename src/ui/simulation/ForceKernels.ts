@@ -0,0 +1,274 @@
+import type { ParameterRange } from "./PhysicsParameters";
+
+/**
+ * Force between two particles as a function of their normalized distance
+ * r (0 at contact, 1 at the sensing radius), the attraction rule a of the
+ * pair (-1..1) and the repulsion zone beta (fraction of the radius).
+ * Positive values attract, negative values repel.
+ */
+export type ForceFunction = (r: number, a: number, beta: number) => number;
+
+/**
+ * A tunable parameter of a force kernel, described so the UI can render a
+ * control for it
+ */
+export interface ForceKernelParameter extends ParameterRange {
+  key: string;
+  label: string;
+  defaultValue: number;
+}
+
+export type ForceKernelParameters = Record<string, number>;
+
+/**
+ * A named force law. `create` bakes the parameter values into a force
+ * function, which is called for every interacting pair.
+ */
+export interface ForceKernel {
+  id: string;
+  name: string;
+  description: string;
+  parameters: ForceKernelParameter[];
+  minBeta?: number; // Smallest repulsion zone the force function uses
+  create(parameters: ForceKernelParameters): ForceFunction;
+}
+
+export const DEFAULT_FORCE_KERNEL_ID = "particle-life";
+
+// Control points of the piecewise kernel, evenly spaced over the
+// attraction zone
+const PIECEWISE_POINTS = 5;
+
+// Smallest core size of the Lennard-Jones kernel, as a fraction of the
+// sensing radius; its whole force scales with the core, so a repulsion
+// distance of 0 would switch every interaction off
+const LENNARD_JONES_MIN_BETA = 0.1;
+
+const registry = new Map<string, ForceKernel>();
+
+/**
+ * Add a kernel to the registry, replacing any kernel with the same id.
+ * Worker threads only know kernels registered when the module loads.
+ */
+export function registerForceKernel(kernel: ForceKernel): void {
+  registry.set(kernel.id, kernel);
+}
+
+/**
+ * Look up a kernel, falling back to the Particle Life kernel for unknown ids
+ */
+export function getForceKernel(id: string): ForceKernel {
+  return registry.get(id) ?? registry.get(DEFAULT_FORCE_KERNEL_ID)!;
+}
+
+/**
+ * All registered kernels, in registration order
+ */
+export function getForceKernels(): ForceKernel[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Default values for every parameter of a kernel
+ */
+export function getDefaultKernelParameters(
+  kernel: ForceKernel,
+): ForceKernelParameters {
+  const result: ForceKernelParameters = {};
+  for (const parameter of kernel.parameters) {
+    result[parameter.key] = parameter.defaultValue;
+  }
+  return result;
+}
+
+/**
+ * Merge a partial update into a kernel's parameters. Unknown keys are
+ * dropped, missing ones get their defaults and values are clamped.
+ */
+export function validateKernelParameters(
+  kernel: ForceKernel,
+  current: ForceKernelParameters,
+  update: Partial<ForceKernelParameters> = {},
+): ForceKernelParameters {
+  const result: ForceKernelParameters = {};
+
+  for (const parameter of kernel.parameters) {
+    let value = update[parameter.key];
+    if (value === undefined || !Number.isFinite(value)) {
+      value = current[parameter.key];
+    }
+    if (value === undefined || !Number.isFinite(value)) {
+      value = parameter.defaultValue;
+    }
+    result[parameter.key] = Math.max(
+      parameter.min,
+      Math.min(parameter.max, value),
+    );
+  }
+
+  return result;
+}
+
+// Shared by most kernels: inside the repulsion zone particles always push
+// each other apart, regardless of the attraction rule
+function universalRepulsion(r: number, beta: number): number {
+  return r / beta - 1;
+}
+
+// Piecewise-linear Particle Life curve
+registerForceKernel({
+  id: "particle-life",
+  name: "Particle Life",
+  description: "Linear repulsion, then a triangular attraction peak",
+  parameters: [],
+  create: () => (r, a, beta) => {
+    if (r < beta) {
+      return universalRepulsion(r, beta);
+    } else if (r < 1) {
+      return a * (1 - Math.abs(2 * r - 1 - beta) / (1 - beta));
+    }
+    return 0;
+  },
+});
+
+// Same shape with smooth transitions, fewer jittery clusters
+registerForceKernel({
+  id: "cosine",
+  name: "Smooth Cosine",
+  description: "Cosine-shaped repulsion and attraction, smooth everywhere",
+  parameters: [
+    {
+      key: "repulsion",
+      label: "Repulsion Strength",
+      min: 0.1,
+      max: 3,
+      step: 0.05,
+      defaultValue: 1,
+    },
+  ],
+  create:
+    ({ repulsion }) =>
+    (r, a, beta) => {
+      if (r < beta) {
+        return -repulsion * 0.5 * (1 + Math.cos((Math.PI * r) / beta));
+      } else if (r < 1) {
+        const t = (r - beta) / (1 - beta);
+        return a * 0.5 * (1 - Math.cos(2 * Math.PI * t));
+      }
+      return 0;
+    },
+});
+
+// Steep r^-12 core and r^-6 attraction, the attraction tapered to zero
+// at the sensing radius
+registerForceKernel({
+  id: "lennard-jones",
+  name: "Lennard-Jones",
+  description:
+    "Hard core at the repulsion distance (at least 10% of the radius), long-range attraction",
+  minBeta: LENNARD_JONES_MIN_BETA,
+  parameters: [
+    {
+      key: "epsilon",
+      label: "Well Depth",
+      min: 0.1,
+      max: 3,
+      step: 0.05,
+      defaultValue: 1,
+    },
+    {
+      key: "maxRepulsion",
+      label: "Max Repulsion",
+      min: 1,
+      max: 10,
+      step: 0.5,
+      defaultValue: 4,
+    },
+  ],
+  create:
+    ({ epsilon, maxRepulsion }) =>
+    (r, a, beta) => {
+      if (r >= 1) return 0;
+
+      const s6 = (Math.max(beta, LENNARD_JONES_MIN_BETA) / r) ** 6;
+      const force = epsilon * (a * s6 * (1 - r) - s6 * s6);
+      return Math.max(-maxRepulsion, force);
+    },
+});
+
+// Attraction concentrated around a preferred distance
+registerForceKernel({
+  id: "gaussian",
+  name: "Gaussian",
+  description: "Repulsion, then a bell-shaped attraction band",
+  parameters: [
+    {
+      key: "center",
+      label: "Peak Position",
+      min: 0,
+      max: 1,
+      step: 0.01,
+      defaultValue: 0.5,
+    },
+    {
+      key: "width",
+      label: "Peak Width",
+      min: 0.02,
+      max: 0.5,
+      step: 0.01,
+      defaultValue: 0.15,
+    },
+  ],
+  create:
+    ({ center, width }) =>
+    (r, a, beta) => {
+      if (r < beta) {
+        return universalRepulsion(r, beta);
+      } else if (r < 1) {
+        const t = (r - beta) / (1 - beta) - center;
+        return a * Math.exp((-0.5 * t * t) / (width * width));
+      }
+      return 0;
+    },
+});
+
+// User-drawn curve through evenly spaced control points
+registerForceKernel({
+  id: "piecewise",
+  name: "Custom Curve",
+  description: "Piecewise-linear curve through the points below",
+  parameters: Array.from({ length: PIECEWISE_POINTS }, (_, index) => {
+    const t = (index + 1) / (PIECEWISE_POINTS + 1);
+    return {
+      key: `point${index + 1}`,
+      label: `Point at ${Math.round(t * 100)}%`,
+      min: -1,
+      max: 1,
+      step: 0.05,
+      // Matches the Particle Life triangle by default
+      defaultValue: Math.round((1 - Math.abs(2 * t - 1)) * 100) / 100,
+    };
+  }),
+  create: (parameters) => {
+    // Curve is zero at both ends of the attraction zone
+    const points = [0];
+    for (let index = 1; index <= PIECEWISE_POINTS; index++) {
+      points.push(parameters[`point${index}`]);
+    }
+    points.push(0);
+
+    const segments = points.length - 1;
+
+    return (r, a, beta) => {
+      if (r < beta) {
+        return universalRepulsion(r, beta);
+      } else if (r < 1) {
+        const position = ((r - beta) / (1 - beta)) * segments;
+        const index = Math.min(segments - 1, Math.floor(position));
+        const t = position - index;
+        return a * (points[index] + (points[index + 1] - points[index]) * t);
+      }
+      return 0;
+    };
+  },
+});
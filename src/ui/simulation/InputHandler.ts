@@ -1,53 +1,149 @@
-import { Camera } from "./Camera";
+import { Camera, CAMERA_ANIMATION_DURATION } from "./Camera";
+import {
+  BRUSH_SETTING_RANGES,
+  DEFAULT_BRUSH_SETTINGS,
+  validateBrushSettings,
+  type BrushSettings,
+  type BrushStroke,
+  type ToolMode,
+} from "./Tools";
 
+// Wheel step for brush radius and strength (Shift / Alt + wheel)
+const BRUSH_WHEEL_FACTOR = 1.1;
+
+// A left press that moves less than this (in pixels) is a click, not a pan
+const CLICK_TOLERANCE = 4;
+
+// Two taps closer than this in time (ms) and space (pixels) reset the camera
+const DOUBLE_TAP_INTERVAL = 300;
+const DOUBLE_TAP_DISTANCE = 30;
+
+// A pan released after holding still this long (ms) doesn't coast
+const FLING_IDLE_TIME = 80;
+
+// Weight of the newest move in the smoothed pan velocity
+const FLING_SMOOTHING = 0.4;
+
+// Pen pressure is multiplied by this, so a typical press (about 0.5) gives
+// the brush's set strength
+const PEN_PRESSURE_SCALE = 2;
+
+/**
+ * Notifications from the input handler to its owner
+ */
+export interface InputCallbacks {
+  // Brush settings changed with the wheel
+  onBrushChange?: (brush: BrushSettings) => void;
+  // Left click or tap with the pan tool, in world coordinates
+  onPick?: (position: { x: number; y: number }) => void;
+  // Camera reset with a double tap
+  onCameraReset?: () => void;
+}
+
+/**
+ * Two-finger pinch and pan, tracked between pointer moves
+ */
+interface Gesture {
+  midpoint: { x: number; y: number };
+  distance: number;
+}
+
+/**
+ * Mouse, touch, pen and keyboard input on the canvas, through Pointer Events.
+ * The left button (or one finger, or the pen) applies the selected tool; the
+ * middle and right buttons, Space + drag and the pan tool move the camera,
+ * which coasts on when released mid-drag, and a click with the pan tool picks
+ * a particle. Two fingers pan and pinch
+ * zoom, a double tap resets the camera, and pen pressure scales the brush
+ * strength. The wheel zooms, or with Shift / Alt changes the brush
+ * radius / strength.
+ */
 export class InputHandler {
   private camera: Camera;
   private canvas: HTMLCanvasElement;
 
-  // Mouse state
-  private isMouseDown: boolean = false;
-  private lastMousePos: { x: number; y: number } = { x: 0, y: 0 };
-  private mouseButton: number = -1;
+  // Screen positions of all pointers currently pressed on the canvas
+  private pointers: Map<number, { x: number; y: number }> = new Map();
+
+  // The pointer driving the current drag (tool or pan), if any
+  private dragPointerId: number | null = null;
+  private dragButton: number = -1;
+  private lastPointerPos: { x: number; y: number } = { x: 0, y: 0 };
+  private isPanning: boolean = false;
+  private isHovering: boolean = false;
+  private isSpaceDown: boolean = false;
+  private dragDistance: number = 0;
+  private pressure: number = 1;
+
+  // Smoothed pan speed in screen pixels per second, for flinging
+  private panVelocity: { x: number; y: number } = { x: 0, y: 0 };
+  private lastMoveTime: number = 0;
+
+  private gesture: Gesture | null = null;
+  private lastTap: { time: number; x: number; y: number } | null = null;
+
+  // Tool state
+  private tool: ToolMode = "pan";
+  private brush: BrushSettings = { ...DEFAULT_BRUSH_SETTINGS };
+  private callbacks: InputCallbacks;
 
   // Event listeners (for cleanup)
-  private boundMouseDown: (e: MouseEvent) => void;
-  private boundMouseMove: (e: MouseEvent) => void;
-  private boundMouseUp: (e: MouseEvent) => void;
+  private boundPointerDown: (e: PointerEvent) => void;
+  private boundPointerMove: (e: PointerEvent) => void;
+  private boundPointerUp: (e: PointerEvent) => void;
+  private boundPointerLeave: (e: PointerEvent) => void;
   private boundWheel: (e: WheelEvent) => void;
   private boundContextMenu: (e: Event) => void;
+  private boundKeyDown: (e: KeyboardEvent) => void;
+  private boundKeyUp: (e: KeyboardEvent) => void;
 
-  constructor(camera: Camera, canvas: HTMLCanvasElement) {
+  constructor(
+    camera: Camera,
+    canvas: HTMLCanvasElement,
+    callbacks: InputCallbacks = {},
+  ) {
     this.camera = camera;
     this.canvas = canvas;
+    this.callbacks = callbacks;
 
     // Bind event handlers
-    this.boundMouseDown = this.handleMouseDown.bind(this);
-    this.boundMouseMove = this.handleMouseMove.bind(this);
-    this.boundMouseUp = this.handleMouseUp.bind(this);
+    this.boundPointerDown = this.handlePointerDown.bind(this);
+    this.boundPointerMove = this.handlePointerMove.bind(this);
+    this.boundPointerUp = this.handlePointerUp.bind(this);
+    this.boundPointerLeave = this.handlePointerLeave.bind(this);
     this.boundWheel = this.handleWheel.bind(this);
     this.boundContextMenu = this.handleContextMenu.bind(this);
+    this.boundKeyDown = this.handleKeyDown.bind(this);
+    this.boundKeyUp = this.handleKeyUp.bind(this);
 
     this.addEventListeners();
   }
 
   private addEventListeners(): void {
-    this.canvas.addEventListener("mousedown", this.boundMouseDown);
-    this.canvas.addEventListener("mousemove", this.boundMouseMove);
-    this.canvas.addEventListener("mouseup", this.boundMouseUp);
+    // Pressed pointers are captured, so moves and releases outside the
+    // canvas still arrive here
+    this.canvas.addEventListener("pointerdown", this.boundPointerDown);
+    this.canvas.addEventListener("pointermove", this.boundPointerMove);
+    this.canvas.addEventListener("pointerup", this.boundPointerUp);
+    this.canvas.addEventListener("pointercancel", this.boundPointerUp);
+    this.canvas.addEventListener("pointerleave", this.boundPointerLeave);
     this.canvas.addEventListener("wheel", this.boundWheel);
     this.canvas.addEventListener("contextmenu", this.boundContextMenu);
 
-    // Also listen on window for mouse up (in case mouse leaves canvas while dragging)
-    window.addEventListener("mouseup", this.boundMouseUp);
+    window.addEventListener("keydown", this.boundKeyDown);
+    window.addEventListener("keyup", this.boundKeyUp);
   }
 
   private removeEventListeners(): void {
-    this.canvas.removeEventListener("mousedown", this.boundMouseDown);
-    this.canvas.removeEventListener("mousemove", this.boundMouseMove);
-    this.canvas.removeEventListener("mouseup", this.boundMouseUp);
+    this.canvas.removeEventListener("pointerdown", this.boundPointerDown);
+    this.canvas.removeEventListener("pointermove", this.boundPointerMove);
+    this.canvas.removeEventListener("pointerup", this.boundPointerUp);
+    this.canvas.removeEventListener("pointercancel", this.boundPointerUp);
+    this.canvas.removeEventListener("pointerleave", this.boundPointerLeave);
     this.canvas.removeEventListener("wheel", this.boundWheel);
     this.canvas.removeEventListener("contextmenu", this.boundContextMenu);
-    window.removeEventListener("mouseup", this.boundMouseUp);
+    window.removeEventListener("keydown", this.boundKeyDown);
+    window.removeEventListener("keyup", this.boundKeyUp);
   }
 
   private getMousePos(event: MouseEvent): { x: number; y: number } {
@@ -58,51 +154,246 @@ export class InputHandler {
     };
   }
 
-  private handleMouseDown(event: MouseEvent): void {
+  private handlePointerDown(event: PointerEvent): void {
     event.preventDefault();
 
-    const mousePos = this.getMousePos(event);
-    this.isMouseDown = true;
-    this.mouseButton = event.button;
-    this.lastMousePos = mousePos;
+    const pointerPos = this.getMousePos(event);
+    this.pointers.set(event.pointerId, pointerPos);
+    this.canvas.setPointerCapture(event.pointerId);
+
+    // A second finger turns the touch into a pinch / pan gesture
+    if (event.pointerType === "touch" && this.pointers.size >= 2) {
+      this.startGesture();
+      return;
+    }
+
+    // One drag at a time; other buttons and pointers are ignored until it
+    // ends
+    if (this.gesture || this.dragPointerId !== null) return;
 
-    // Change cursor to indicate dragging
-    this.canvas.style.cursor = "grabbing";
+    this.dragPointerId = event.pointerId;
+    this.dragButton = event.button;
+    this.lastPointerPos = pointerPos;
+    this.dragDistance = 0;
+    this.panVelocity = { x: 0, y: 0 };
+    this.lastMoveTime = event.timeStamp;
+    this.pressure = getPressureScale(event);
+    this.isPanning =
+      event.button !== 0 || this.tool === "pan" || this.isSpaceDown;
+
+    // Grabbing the view stops it coasting
+    if (this.isPanning) this.camera.stop();
+
+    this.updateCursor();
   }
 
-  private handleMouseMove(event: MouseEvent): void {
-    const mousePos = this.getMousePos(event);
+  private handlePointerMove(event: PointerEvent): void {
+    const pointerPos = this.getMousePos(event);
+    if (this.pointers.has(event.pointerId)) {
+      this.pointers.set(event.pointerId, pointerPos);
+    }
+
+    if (this.gesture) {
+      this.updateGesture();
+      return;
+    }
 
-    if (this.isMouseDown) {
-      // Calculate mouse delta
-      const deltaX = mousePos.x - this.lastMousePos.x;
-      const deltaY = mousePos.y - this.lastMousePos.y;
+    // Pointers other than the dragging one don't move the brush
+    if (this.dragPointerId !== null && event.pointerId !== this.dragPointerId) {
+      return;
+    }
 
-      // Pan camera (invert Y for natural movement)
-      this.camera.pan(deltaX, deltaY);
+    if (this.dragPointerId !== null) {
+      this.pressure = getPressureScale(event);
 
-      this.lastMousePos = mousePos;
-    } else {
-      // Show grab cursor when hovering
-      this.canvas.style.cursor = "grab";
+      if (this.isPanning) {
+        // Calculate pointer delta
+        const deltaX = pointerPos.x - this.lastPointerPos.x;
+        const deltaY = pointerPos.y - this.lastPointerPos.y;
+        this.dragDistance += Math.abs(deltaX) + Math.abs(deltaY);
+
+        // Pan camera (invert Y for natural movement)
+        this.camera.pan(deltaX, deltaY);
+        this.trackPanVelocity(deltaX, deltaY, event.timeStamp);
+      }
+    }
+
+    // Brushes follow the pointer, also between drags for the outline
+    this.isHovering = true;
+    this.lastPointerPos = pointerPos;
+    this.updateCursor();
+  }
+
+  private handlePointerUp(event: PointerEvent): void {
+    this.pointers.delete(event.pointerId);
+
+    if (this.gesture) {
+      // Remaining fingers stay idle until all are lifted
+      if (this.pointers.size < 2) this.gesture = null;
+      return;
+    }
+
+    if (event.pointerId !== this.dragPointerId) return;
+
+    const isClick =
+      event.type === "pointerup" &&
+      this.isPanning &&
+      this.dragButton === 0 &&
+      this.tool === "pan" &&
+      !this.isSpaceDown &&
+      this.dragDistance < CLICK_TOLERANCE;
+    if (isClick) {
+      this.handleTap(event);
+    } else if (
+      this.isPanning &&
+      event.type === "pointerup" &&
+      event.timeStamp - this.lastMoveTime < FLING_IDLE_TIME
+    ) {
+      this.camera.fling(this.panVelocity.x, this.panVelocity.y);
+    }
+
+    this.dragPointerId = null;
+    this.dragButton = -1;
+    this.isPanning = false;
+    this.pressure = 1;
+
+    // Touch has no hover, so the brush outline disappears with the finger
+    this.isHovering = event.pointerType !== "touch";
+    this.updateCursor();
+  }
+
+  private handlePointerLeave(): void {
+    if (this.dragPointerId === null) {
+      this.isHovering = false;
+    }
+  }
+
+  /**
+   * A click or tap picks a particle; a quick second tap resets the camera
+   */
+  private handleTap(event: PointerEvent): void {
+    const tapPos = this.getMousePos(event);
+    const lastTap = this.lastTap;
+
+    if (
+      lastTap &&
+      event.timeStamp - lastTap.time < DOUBLE_TAP_INTERVAL &&
+      Math.hypot(tapPos.x - lastTap.x, tapPos.y - lastTap.y) <
+        DOUBLE_TAP_DISTANCE
+    ) {
+      this.lastTap = null;
+      this.camera.reset(CAMERA_ANIMATION_DURATION);
+      this.callbacks.onCameraReset?.();
+      return;
+    }
+
+    this.lastTap = { time: event.timeStamp, ...tapPos };
+    this.callbacks.onPick?.(this.getWorldMousePos(event));
+  }
+
+  private trackPanVelocity(deltaX: number, deltaY: number, time: number): void {
+    const elapsed = (time - this.lastMoveTime) / 1000;
+    this.lastMoveTime = time;
+    if (elapsed <= 0) return;
+
+    const smoothing = FLING_SMOOTHING;
+    this.panVelocity.x += (deltaX / elapsed - this.panVelocity.x) * smoothing;
+    this.panVelocity.y += (deltaY / elapsed - this.panVelocity.y) * smoothing;
+  }
+
+  private startGesture(): void {
+    // Whatever the first finger was doing stops
+    this.dragPointerId = null;
+    this.dragButton = -1;
+    this.isPanning = false;
+    this.isHovering = false;
+    this.gesture = this.measureGesture();
+  }
+
+  /**
+   * Pan by the midpoint's movement and zoom around it by the change in
+   * finger spread
+   */
+  private updateGesture(): void {
+    const previous = this.gesture;
+    const current = this.measureGesture();
+    if (!previous || !current) return;
+
+    this.camera.pan(
+      current.midpoint.x - previous.midpoint.x,
+      current.midpoint.y - previous.midpoint.y,
+    );
+    if (previous.distance > 0 && current.distance > 0) {
+      this.camera.zoomAt(
+        current.midpoint.x,
+        current.midpoint.y,
+        current.distance / previous.distance,
+      );
     }
+
+    this.gesture = current;
+  }
+
+  /**
+   * Midpoint and spread of the first two pressed pointers
+   */
+  private measureGesture(): Gesture | null {
+    const [a, b] = this.pointers.values();
+    if (!a || !b) return null;
+
+    return {
+      midpoint: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      distance: Math.hypot(b.x - a.x, b.y - a.y),
+    };
   }
 
-  private handleMouseUp(event: MouseEvent): void {
-    this.isMouseDown = false;
-    this.mouseButton = -1;
+  private handleKeyDown(event: KeyboardEvent): void {
+    if (event.code !== "Space" || isTextInput(event.target)) return;
 
-    // Reset cursor
-    this.canvas.style.cursor = "grab";
+    // Keep Space from scrolling or pressing a focused button
+    event.preventDefault();
+    this.isSpaceDown = true;
+    this.updateCursor();
+  }
+
+  private handleKeyUp(event: KeyboardEvent): void {
+    if (event.code !== "Space") return;
+
+    this.isSpaceDown = false;
+    this.updateCursor();
+  }
+
+  private updateCursor(): void {
+    if (this.dragPointerId !== null && this.isPanning) {
+      this.canvas.style.cursor = "grabbing";
+    } else if (this.tool === "pan" || this.isSpaceDown) {
+      this.canvas.style.cursor = "grab";
+    } else {
+      this.canvas.style.cursor = "crosshair";
+    }
   }
 
   private handleWheel(event: WheelEvent): void {
     event.preventDefault();
 
+    // Some browsers turn Shift + wheel into horizontal scrolling
+    const delta = event.deltaY || event.deltaX;
+
+    if (event.shiftKey || event.altKey) {
+      const factor = delta > 0 ? 1 / BRUSH_WHEEL_FACTOR : BRUSH_WHEEL_FACTOR;
+      this.setBrush(
+        event.shiftKey
+          ? { radius: this.brush.radius * factor }
+          : { strength: this.brush.strength * factor },
+      );
+      this.callbacks.onBrushChange?.(this.brush);
+      return;
+    }
+
     const mousePos = this.getMousePos(event);
 
     // Determine zoom direction and amount
-    const zoomFactor = event.deltaY > 0 ? 0.9 : 1.1;
+    const zoomFactor = delta > 0 ? 0.9 : 1.1;
 
     // Zoom at mouse cursor position
     this.camera.zoomAt(mousePos.x, mousePos.y, zoomFactor);
@@ -121,18 +412,79 @@ export class InputHandler {
     return this.camera.screenToWorld(screenPos.x, screenPos.y);
   }
 
+  public getTool(): ToolMode {
+    return this.tool;
+  }
+
   /**
-   * Check if mouse is currently being dragged
+   * Select what the left mouse button does
+   */
+  public setTool(tool: ToolMode): void {
+    this.tool = tool;
+    this.updateCursor();
+  }
+
+  public getBrush(): BrushSettings {
+    return { ...this.brush };
+  }
+
+  public setBrush(brush: Partial<BrushSettings>): void {
+    this.brush = validateBrushSettings(this.brush, brush);
+  }
+
+  /**
+   * The brush under the pointer while it applies a tool, in world
+   * coordinates; null while panning or idle. Pen pressure scales the
+   * strength, up to the strength slider's maximum.
+   */
+  public getBrushStroke(): BrushStroke | null {
+    if (this.dragPointerId === null || this.isPanning || this.tool === "pan") {
+      return null;
+    }
+
+    const position = this.camera.screenToWorld(
+      this.lastPointerPos.x,
+      this.lastPointerPos.y,
+    );
+    return {
+      ...this.brush,
+      strength: Math.min(
+        this.brush.strength * this.pressure,
+        BRUSH_SETTING_RANGES.strength.max,
+      ),
+      tool: this.tool,
+      ...position,
+    };
+  }
+
+  /**
+   * Circle to draw around the cursor when a brush tool is selected
+   */
+  public getBrushOutline(): { x: number; y: number; radius: number } | null {
+    if (this.tool === "pan" || this.isSpaceDown || !this.isHovering) {
+      return null;
+    }
+    if (this.dragPointerId !== null && this.isPanning) return null;
+
+    const position = this.camera.screenToWorld(
+      this.lastPointerPos.x,
+      this.lastPointerPos.y,
+    );
+    return { ...position, radius: this.brush.radius };
+  }
+
+  /**
+   * Check if a pointer is currently dragging or a gesture is in progress
    */
   public isDragging(): boolean {
-    return this.isMouseDown;
+    return this.dragPointerId !== null || this.gesture !== null;
   }
 
   /**
    * Reset camera to center with double-click or keyboard shortcut
    */
   public resetCamera(): void {
-    this.camera.reset();
+    this.camera.reset(CAMERA_ANIMATION_DURATION);
   }
 
   /**
@@ -148,10 +500,27 @@ export class InputHandler {
   public setEnabled(enabled: boolean): void {
     if (enabled) {
       this.addEventListeners();
-      this.canvas.style.cursor = "grab";
+      this.updateCursor();
     } else {
       this.removeEventListeners();
       this.canvas.style.cursor = "default";
     }
   }
 }
+
+// Pen pressure as a brush strength factor; mice and fingers press fully
+function getPressureScale(event: PointerEvent): number {
+  if (event.pointerType !== "pen" || event.pressure <= 0) return 1;
+  return event.pressure * PEN_PRESSURE_SCALE;
+}
+
+// Keys typed into form fields are not shortcuts
+function isTextInput(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  return (
+    !!element &&
+    (element.tagName === "INPUT" ||
+      element.tagName === "TEXTAREA" ||
+      element.tagName === "SELECT")
+  );
+}
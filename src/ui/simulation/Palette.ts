@@ -0,0 +1,299 @@
+/**
+ * Species colors. A palette is a Float32Array with one RGB triple (0-1) per
+ * species, the same layout the particle system and renderer use, so every
+ * view of a species reads its color from one place.
+ */
+
+/**
+ * A named list of colors, e.g. a preset or an imported palette
+ */
+export interface PaletteDefinition {
+  name: string;
+  colors: string[]; // "#rrggbb", empty for the generated rainbow
+  colorblindSafe?: boolean;
+  gradient?: boolean; // Sample the colors as a gradient instead of cycling
+}
+
+// Golden angle: hues added one by one stay well apart for any count
+const GOLDEN_ANGLE = 137.508;
+
+export const PALETTE_PRESETS: PaletteDefinition[] = [
+  { name: "Rainbow", colors: [] },
+  {
+    name: "Okabe-Ito",
+    colorblindSafe: true,
+    // Black swapped for light grey, it would vanish on the dark background
+    colors: [
+      "#e69f00",
+      "#56b4e9",
+      "#009e73",
+      "#f0e442",
+      "#0072b2",
+      "#d55e00",
+      "#cc79a7",
+      "#bbbbbb",
+    ],
+  },
+  {
+    name: "Tol Bright",
+    colorblindSafe: true,
+    colors: [
+      "#4477aa",
+      "#ee6677",
+      "#228833",
+      "#ccbb44",
+      "#66ccee",
+      "#aa3377",
+      "#bbbbbb",
+    ],
+  },
+  {
+    name: "Tol Muted",
+    colorblindSafe: true,
+    colors: [
+      "#cc6677",
+      "#332288",
+      "#ddcc77",
+      "#117733",
+      "#88ccee",
+      "#882255",
+      "#44aa99",
+      "#999933",
+      "#aa4499",
+    ],
+  },
+  {
+    name: "Viridis",
+    colorblindSafe: true,
+    gradient: true,
+    colors: [
+      "#440154",
+      "#482878",
+      "#3e4a89",
+      "#31688e",
+      "#26828e",
+      "#1f9e89",
+      "#35b779",
+      "#6dcd59",
+      "#b4de2c",
+      "#fde725",
+    ],
+  },
+  {
+    name: "Tableau 10",
+    colors: [
+      "#4e79a7",
+      "#f28e2b",
+      "#e15759",
+      "#76b7b2",
+      "#59a14f",
+      "#edc948",
+      "#b07aa1",
+      "#ff9da7",
+      "#9c755f",
+      "#bab0ac",
+    ],
+  },
+];
+
+/**
+ * Evenly spaced hues, the default palette
+ */
+export function generateHuePalette(count: number): Float32Array {
+  const palette = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    palette.set(hslToRgb((i / count) * 360, 0.7, 0.5), i * 3);
+  }
+  return palette;
+}
+
+/**
+ * Palette for a new species count. The default rainbow is regenerated so it
+ * stays evenly spaced; custom colors are kept and new species get hues that
+ * are far from the previous ones.
+ */
+export function resizePalette(
+  palette: Float32Array,
+  count: number,
+): Float32Array {
+  const oldCount = Math.floor(palette.length / 3);
+  if (oldCount === count) return palette.slice();
+
+  if (palettesEqual(palette, generateHuePalette(oldCount))) {
+    return generateHuePalette(count);
+  }
+
+  const resized = new Float32Array(count * 3);
+  resized.set(palette.subarray(0, Math.min(oldCount, count) * 3));
+  for (let i = oldCount; i < count; i++) {
+    resized.set(hslToRgb((i * GOLDEN_ANGLE) % 360, 0.7, 0.55), i * 3);
+  }
+  return resized;
+}
+
+/**
+ * Palette with `count` colors from a preset or imported definition
+ */
+export function createPalette(
+  definition: PaletteDefinition,
+  count: number,
+): Float32Array {
+  const colors = definition.colors
+    .map(parseHexColor)
+    .filter((rgb): rgb is [number, number, number] => rgb !== null);
+  if (colors.length === 0) return generateHuePalette(count);
+
+  const palette = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    palette.set(
+      definition.gradient
+        ? sampleGradient(colors, count === 1 ? 0 : i / (count - 1))
+        : cycleColor(colors, i),
+      i * 3,
+    );
+  }
+  return palette;
+}
+
+/**
+ * CSS color of one species
+ */
+export function getPaletteColor(palette: Float32Array, index: number): string {
+  const r = Math.round((palette[index * 3] ?? 0) * 255);
+  const g = Math.round((palette[index * 3 + 1] ?? 0) * 255);
+  const b = Math.round((palette[index * 3 + 2] ?? 0) * 255);
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+/**
+ * Hex notation of one species color, as used by color inputs
+ */
+export function getPaletteHex(palette: Float32Array, index: number): string {
+  let hex = "#";
+  for (let channel = 0; channel < 3; channel++) {
+    const value = Math.round((palette[index * 3 + channel] ?? 0) * 255);
+    hex += value.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+/**
+ * Parse "#rgb" or "#rrggbb" (the "#" is optional) into 0-1 RGB
+ */
+export function parseHexColor(text: string): [number, number, number] | null {
+  let hex = text.trim().replace(/^#/, "");
+  if (/^[0-9a-f]{3}$/i.test(hex)) {
+    hex = hex.replace(/./g, (digit) => digit + digit);
+  }
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return null;
+
+  const value = parseInt(hex, 16);
+  return [
+    ((value >> 16) & 0xff) / 255,
+    ((value >> 8) & 0xff) / 255,
+    (value & 0xff) / 255,
+  ];
+}
+
+/**
+ * Read a palette pasted by the user. Accepts JSON like
+ * {"name": "Sunset", "colors": ["#ff0000", ...]} or plain text like
+ * "Sunset: #ff0000 #ffaa00 ...". Throws if no valid color is found.
+ */
+export function parsePaletteDefinition(text: string): PaletteDefinition {
+  const trimmed = text.trim();
+  let name = "Imported";
+  let entries: string[];
+
+  if (trimmed.startsWith("{")) {
+    const parsed = JSON.parse(trimmed) as { name?: unknown; colors?: unknown };
+    if (!Array.isArray(parsed.colors)) {
+      throw new Error('Palette JSON needs a "colors" array');
+    }
+    if (typeof parsed.name === "string" && parsed.name.trim()) {
+      name = parsed.name.trim();
+    }
+    entries = parsed.colors.map(String);
+  } else {
+    const separator = trimmed.indexOf(":");
+    if (separator > 0 && !trimmed.slice(0, separator).includes("#")) {
+      name = trimmed.slice(0, separator).trim();
+    }
+    entries = trimmed.slice(separator + 1).split(/[\s,;]+/);
+  }
+
+  const colors = entries.filter((entry) => parseHexColor(entry) !== null);
+  if (colors.length === 0) {
+    throw new Error("No valid hex colors found in palette");
+  }
+
+  return {
+    name,
+    colors: colors.map((entry) => `#${entry.trim().replace(/^#/, "")}`),
+  };
+}
+
+function palettesEqual(a: Float32Array, b: Float32Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let k = 0; k < a.length; k++) {
+    if (a[k] !== b[k]) return false;
+  }
+  return true;
+}
+
+// Categorical palettes repeat, alternately lighter and darker per round
+function cycleColor(
+  colors: [number, number, number][],
+  index: number,
+): [number, number, number] {
+  const [r, g, b] = colors[index % colors.length];
+  const round = Math.floor(index / colors.length);
+  if (round === 0) return [r, g, b];
+
+  const amount = Math.min(0.6, 0.3 * Math.ceil(round / 2));
+  const target = round % 2 === 1 ? 1 : 0;
+  return [
+    r + (target - r) * amount,
+    g + (target - g) * amount,
+    b + (target - b) * amount,
+  ];
+}
+
+function sampleGradient(
+  colors: [number, number, number][],
+  t: number,
+): [number, number, number] {
+  const position = t * (colors.length - 1);
+  const index = Math.min(colors.length - 2, Math.floor(position));
+  if (index < 0) return colors[0];
+
+  const f = position - index;
+  const from = colors[index];
+  const to = colors[index + 1];
+  return [
+    from[0] + (to[0] - from[0]) * f,
+    from[1] + (to[1] - from[1]) * f,
+    from[2] + (to[2] - from[2]) * f,
+  ];
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  h /= 360;
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+
+  const hueToRgb = (p: number, q: number, t: number): number => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+
+  return [
+    hueToRgb(p, q, h + 1 / 3),
+    hueToRgb(p, q, h),
+    hueToRgb(p, q, h - 1 / 3),
+  ];
+}
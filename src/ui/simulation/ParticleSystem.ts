@@ -1,9 +1,130 @@
-export interface ParticleSystemConfig {
+import { SpatialGrid, GridBounds } from "./SpatialGrid";
+import {
+  DEFAULT_PHYSICS_PARAMETERS,
+  DEFAULT_SPECIES_PROPERTIES,
+  clampPairScale,
+  resizeSpeciesList,
+  validatePhysicsParameters,
+  validateSpeciesProperties,
+  type PhysicsParameters,
+  type SpeciesProperties,
+} from "./PhysicsParameters";
+import {
+  DEFAULT_FORCE_KERNEL_ID,
+  getForceKernel,
+  validateKernelParameters,
+  type ForceFunction,
+  type ForceKernelParameters,
+} from "./ForceKernels";
+import {
+  Random,
+  deriveSeed,
+  SEED_STREAM_PARTICLES,
+  SEED_STREAM_RULES,
+  SEED_STREAM_TOOLS,
+} from "./Random";
+import { generateHuePalette, resizePalette } from "./Palette";
+import type { SharedSimulationState } from "./WorkerProtocol";
+import type { BrushStroke } from "./Tools";
+import type { ColorMode } from "./ColorModes";
+
+// Particles added per second by a spawn brush of strength 1
+const BRUSH_SPAWN_RATE = 200;
+
+/**
+ * How particles interact with the edges of the world
+ * - wrap: toroidal world, particles leave one edge and enter the opposite one
+ * - reflect: rigid walls, the normal velocity is inverted on contact
+ * - clamp: particles stop at the walls and lose their outward velocity
+ * - soft: walls push particles back with a force that grows near the edge
+ * - circle: circular petri-dish arena with reflective walls
+ * - none: unbounded world
+ */
+export type BoundaryMode =
+  "wrap" | "reflect" | "clamp" | "soft" | "circle" | "none";
+
+// Every boundary mode, for checking untrusted input
+export const BOUNDARY_MODES: BoundaryMode[] = [
+  "wrap",
+  "reflect",
+  "clamp",
+  "soft",
+  "circle",
+  "none",
+];
+
+/**
+ * Outline of the active boundary in world coordinates (centered on origin)
+ */
+export type BoundaryShape =
+  | { type: "rect"; width: number; height: number }
+  | { type: "circle"; radius: number };
+
+/**
+ * Numerical integration scheme used to advance the simulation
+ * - euler: semi-implicit (symplectic) Euler, one force evaluation per step
+ * - verlet: velocity Verlet, reuses the previous step's forces
+ * - rk4: classic 4th order Runge-Kutta, four force evaluations per step
+ */
+export type Integrator = "euler" | "verlet" | "rk4";
+
+// Every integrator, for checking untrusted input
+export const INTEGRATORS: Integrator[] = ["euler", "verlet", "rk4"];
+
+// Species count limits of the UI and of loaded worlds
+export const MIN_COLOR_COUNT = 2;
+export const MAX_COLOR_COUNT = 32;
+
+// Most particles a world may hold
+export const MAX_PARTICLE_COUNT = 10000;
+
+export interface ParticleSystemConfig extends Partial<PhysicsParameters> {
   particleCount: number;
   worldSize: { width: number; height: number };
   colorCount: number;
-  sensingRadius?: number;
-  betaDistance?: number;
+  boundaryMode?: BoundaryMode;
+  integrator?: Integrator;
+  forceKernel?: string; // Id of a registered force kernel
+  kernelParameters?: Partial<ForceKernelParameters>;
+  seed?: number; // Random seed for the initial state and rules
+  shared?: boolean; // Allocate particle data in SharedArrayBuffers for workers
+}
+
+/**
+ * Complete, self-contained copy of a world (arrays are not shared with the
+ * system). The random streams are restarted from the seed on import.
+ */
+export interface ParticleSystemState {
+  seed: number;
+  particleCount: number;
+  colorCount: number;
+  worldSize: { width: number; height: number };
+  physics: PhysicsParameters;
+  boundaryMode: BoundaryMode;
+  integrator: Integrator;
+  forceKernel: string;
+  kernelParameters: ForceKernelParameters;
+  colorMatrix: Float32Array; // colorCount x colorCount, row-major
+  radiusMatrix: Float32Array; // Sensing radius multipliers, same layout
+  repulsionMatrix: Float32Array; // Repulsion zone multipliers, same layout
+  species: SpeciesProperties[]; // One entry per color
+  palette: Float32Array; // RGB per color
+  positions: Float32Array;
+  velocities: Float32Array;
+  colorIndices: Uint8Array;
+}
+
+/**
+ * Current state of a single particle, as shown by the inspector
+ */
+export interface ParticleInfo {
+  id: number; // Stable across removals, unlike the index
+  index: number;
+  colorIndex: number;
+  position: { x: number; y: number };
+  velocity: { x: number; y: number };
+  force: { x: number; y: number }; // Net force of the last step, per unit mass
+  neighborCount: number; // Particles within this particle's sensing radii
 }
 
 export class ParticleSystem {
@@ -14,48 +135,142 @@ export class ParticleSystem {
   public sizes: Float32Array;
   public forces: Float32Array;
 
+  // Written by the force pass for the color modes: particles within each
+  // particle's sensing radii, and a smooth count of everything within the
+  // largest radius
+  public neighborCounts: Float32Array;
+  public densities: Float32Array;
+
   private particleCount: number;
+
+  // Stable identity per particle. Removals move particles between slots,
+  // ids move with them and are never reused.
+  private particleIds: Uint32Array;
+  private nextParticleId: number = 0;
+
   private worldSize: { width: number; height: number };
   private colorCount: number;
   private colorPalette: Float32Array;
   private colorMatrix: Float32Array; // Interaction rules matrix
 
-  // Interaction parameters
-  private sensingRadius: number;
-  private betaDistance: number;
+  // Per-pair multipliers of the sensing radius and repulsion zone
+  private radiusMatrix: Float32Array;
+  private repulsionMatrix: Float32Array;
+
+  // Absolute radius and repulsion fraction (beta) per pair, derived from the
+  // matrices and physics parameters
+  private pairRadius: Float32Array = new Float32Array(0);
+  private pairBeta: Float32Array = new Float32Array(0);
+  private maxRadius: number = 0;
+  private pairCacheDirty: boolean = true;
+
+  // Mass, size, speed limit and friction per color, plus the per-step values
+  // derived from them and the physics parameters
+  private species: SpeciesProperties[];
+  private speciesInverseMass: number[] = [];
+  private speciesDamping: number[] = [];
+  private speciesMaxSpeed: number[] = [];
+  private speciesCacheDirty: boolean = true;
+
+  // Interaction and integration parameters
+  private physics: PhysicsParameters;
+
+  private boundaryMode: BoundaryMode;
+  private integrator: Integrator;
+
+  // Force law between pairs, see ForceKernels
+  private forceKernel: string = DEFAULT_FORCE_KERNEL_ID;
+  private kernelParameters: ForceKernelParameters = {};
+  private forceFunction: ForceFunction;
+
+  // Positions at the start of the current fixed step, for interpolation
+  private previousPositions: Float32Array;
+  private interpolatedPositions: Float32Array = new Float32Array(0);
+
+  // Intermediate RK4 positions, read by every thread in the force pass
+  private stagePositions: Float32Array;
+
+  // Scratch buffers for Verlet and RK4, allocated on first use
+  private previousForces: Float32Array = new Float32Array(0);
+  private stageVelocities: Float32Array = new Float32Array(0);
+  private stageForces: Float32Array = new Float32Array(0);
+  private velocitySum: Float32Array = new Float32Array(0);
+  private forceSum: Float32Array = new Float32Array(0);
+
+  // Whether `forces` matches the current positions (used by Verlet)
+  private forcesValid: boolean = false;
+
+  // Deterministic randomness: one stream for particles, one for rules and
+  // one for brush tools, so painting never shifts the other two
+  private seed: number;
+  private random: Random;
+  private ruleRandom: Random;
+  private toolRandom: Random;
+
+  // Neighbor search structure, rebuilt whenever positions have moved
+  private grid: SpatialGrid = new SpatialGrid();
+  private gridDirty: boolean = true;
+  private neighborCols: Int32Array = new Int32Array(3);
+  private neighborRows: Int32Array = new Int32Array(3);
+
+  // Slice of the particles this instance integrates. Worker threads each own
+  // one slice and meet at `synchronize` around every force pass.
+  private partitionIndex: number = 0;
+  private partitionCount: number = 1;
+  private rangeStart: number = 0;
+  private rangeEnd: number = 0;
+  private synchronize: () => void = () => {};
+
+  // Bumped on every change workers need to know about
+  private revision: number = 0;
+
+  // Bumped whenever particle colors or sizes change, for the renderer
+  private appearanceRevision: number = 0;
 
   constructor(config: ParticleSystemConfig) {
     this.particleCount = config.particleCount;
     this.worldSize = config.worldSize;
     this.colorCount = config.colorCount;
-    this.sensingRadius = config.sensingRadius || 80; // Sensing radius for interactions
-    this.betaDistance = config.betaDistance || 15; // Not used in particle life force function
+    this.physics = validatePhysicsParameters(
+      DEFAULT_PHYSICS_PARAMETERS,
+      config,
+    );
+    this.boundaryMode = config.boundaryMode || "wrap";
+    this.integrator = config.integrator || "euler";
+    this.forceFunction = this.applyForceKernel(
+      config.forceKernel ?? DEFAULT_FORCE_KERNEL_ID,
+      config.kernelParameters,
+    );
+    this.seed = config.seed ?? Random.createSeed();
+    this.random = new Random(deriveSeed(this.seed, SEED_STREAM_PARTICLES));
+    this.ruleRandom = new Random(deriveSeed(this.seed, SEED_STREAM_RULES));
+    this.toolRandom = new Random(deriveSeed(this.seed, SEED_STREAM_TOOLS));
 
-    this.positions = new Float32Array(this.particleCount * 2);
-    this.velocities = new Float32Array(this.particleCount * 2);
-    this.colors = new Float32Array(this.particleCount * 3);
-    this.colorIndices = new Uint8Array(this.particleCount);
-    this.sizes = new Float32Array(this.particleCount);
-    this.forces = new Float32Array(this.particleCount * 2);
+    const shared = config.shared || false;
+    this.positions = createArray(Float32Array, this.particleCount * 2, shared);
+    this.velocities = createArray(Float32Array, this.particleCount * 2, shared);
+    this.colors = createArray(Float32Array, this.particleCount * 3, shared);
+    this.colorIndices = createArray(Uint8Array, this.particleCount, shared);
+    this.sizes = createArray(Float32Array, this.particleCount, shared);
+    this.forces = createArray(Float32Array, this.particleCount * 2, shared);
+    this.neighborCounts = createArray(Float32Array, this.particleCount, shared);
+    this.densities = createArray(Float32Array, this.particleCount, shared);
+    this.stagePositions = createArray(
+      Float32Array,
+      this.particleCount * 2,
+      shared,
+    );
+    this.previousPositions = new Float32Array(this.particleCount * 2);
+    this.particleIds = new Uint32Array(this.particleCount);
 
-    this.colorPalette = this.generateColorPalette();
+    this.colorPalette = generateHuePalette(this.colorCount);
     this.colorMatrix = this.generateColorMatrix();
+    this.radiusMatrix = new Float32Array(this.colorCount ** 2).fill(1);
+    this.repulsionMatrix = new Float32Array(this.colorCount ** 2).fill(1);
+    this.species = resizeSpeciesList([], this.colorCount);
 
     this.initializeParticles();
-  }
-
-  private generateColorPalette(): Float32Array {
-    const palette = new Float32Array(this.colorCount * 3);
-
-    for (let i = 0; i < this.colorCount; i++) {
-      const hue = (i / this.colorCount) * 360;
-      const rgb = this.hslToRgb(hue, 0.7, 0.5);
-      palette[i * 3] = rgb[0];
-      palette[i * 3 + 1] = rgb[1];
-      palette[i * 3 + 2] = rgb[2];
-    }
-
-    return palette;
+    this.previousPositions.set(this.positions);
   }
 
   private generateColorMatrix(): Float32Array {
@@ -69,7 +284,8 @@ export class ParticleSystem {
           matrix[i * this.colorCount + j] = -0.4;
         } else {
           // Different colors - stronger random asymmetric rules
-          matrix[i * this.colorCount + j] = (Math.random() - 0.5) * 3.0; // Range: -1.5 to +1.5
+          matrix[i * this.colorCount + j] =
+            (this.ruleRandom.next() - 0.5) * 3.0; // Range: -1.5 to +1.5
         }
       }
     }
@@ -77,151 +293,491 @@ export class ParticleSystem {
     return matrix;
   }
 
-  private hslToRgb(h: number, s: number, l: number): [number, number, number] {
-    h /= 360;
-    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-    const p = 2 * l - q;
-
-    const hueToRgb = (p: number, q: number, t: number): number => {
-      if (t < 0) t += 1;
-      if (t > 1) t -= 1;
-      if (t < 1 / 6) return p + (q - p) * 6 * t;
-      if (t < 1 / 2) return q;
-      if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
-      return p;
-    };
-
-    return [
-      hueToRgb(p, q, h + 1 / 3),
-      hueToRgb(p, q, h),
-      hueToRgb(p, q, h - 1 / 3),
-    ];
-  }
-
   private initializeParticles(): void {
+    this.assignParticleIds(0);
+
     for (let i = 0; i < this.particleCount; i++) {
       // Random positions in world space (centered around origin)
-      this.positions[i * 2] = (Math.random() - 0.5) * this.worldSize.width;
-      this.positions[i * 2 + 1] = (Math.random() - 0.5) * this.worldSize.height;
+      this.positions[i * 2] = (this.random.next() - 0.5) * this.worldSize.width;
+      this.positions[i * 2 + 1] =
+        (this.random.next() - 0.5) * this.worldSize.height;
 
       // Start with zero velocity
       this.velocities[i * 2] = 0;
       this.velocities[i * 2 + 1] = 0;
 
       // Random color assignment
-      const colorIndex = Math.floor(Math.random() * this.colorCount);
-      this.colorIndices[i] = colorIndex;
+      this.assignColor(i, this.random.int(this.colorCount));
+    }
+  }
 
-      // Copy color from palette
-      this.colors[i * 3] = this.colorPalette[colorIndex * 3];
-      this.colors[i * 3 + 1] = this.colorPalette[colorIndex * 3 + 1];
-      this.colors[i * 3 + 2] = this.colorPalette[colorIndex * 3 + 2];
+  /**
+   * Set a particle's species and copy its color and size from the species
+   */
+  private assignColor(index: number, colorIndex: number): void {
+    this.colorIndices[index] = colorIndex;
+    this.colors[index * 3] = this.colorPalette[colorIndex * 3];
+    this.colors[index * 3 + 1] = this.colorPalette[colorIndex * 3 + 1];
+    this.colors[index * 3 + 2] = this.colorPalette[colorIndex * 3 + 2];
+    this.sizes[index] = this.species[colorIndex].size;
+    this.appearanceRevision++;
+  }
 
-      this.sizes[i] = 4.0;
+  /**
+   * Give every particle from `start` on a new id
+   */
+  private assignParticleIds(start: number): void {
+    for (let i = start; i < this.particleIds.length; i++) {
+      this.particleIds[i] = this.nextParticleId++;
     }
   }
 
+  /**
+   * Copy every per-particle attribute from one slot to another
+   */
+  private copyParticle(from: number, to: number): void {
+    this.positions[to * 2] = this.positions[from * 2];
+    this.positions[to * 2 + 1] = this.positions[from * 2 + 1];
+    this.previousPositions[to * 2] = this.previousPositions[from * 2];
+    this.previousPositions[to * 2 + 1] = this.previousPositions[from * 2 + 1];
+    this.velocities[to * 2] = this.velocities[from * 2];
+    this.velocities[to * 2 + 1] = this.velocities[from * 2 + 1];
+    this.forces[to * 2] = this.forces[from * 2];
+    this.forces[to * 2 + 1] = this.forces[from * 2 + 1];
+    this.colors[to * 3] = this.colors[from * 3];
+    this.colors[to * 3 + 1] = this.colors[from * 3 + 1];
+    this.colors[to * 3 + 2] = this.colors[from * 3 + 2];
+    this.colorIndices[to] = this.colorIndices[from];
+    this.sizes[to] = this.sizes[from];
+    this.neighborCounts[to] = this.neighborCounts[from];
+    this.densities[to] = this.densities[from];
+    this.particleIds[to] = this.particleIds[from];
+    this.appearanceRevision++;
+  }
+
+  /**
+   * Reallocate the particle arrays for a new count, keeping existing data
+   */
+  private resizeArrays(count: number): void {
+    this.positions = resizeArray(this.positions, count * 2);
+    this.velocities = resizeArray(this.velocities, count * 2);
+    this.colors = resizeArray(this.colors, count * 3);
+    this.colorIndices = resizeArray(this.colorIndices, count);
+    this.sizes = resizeArray(this.sizes, count);
+    this.forces = resizeArray(this.forces, count * 2);
+    this.neighborCounts = resizeArray(this.neighborCounts, count);
+    this.densities = resizeArray(this.densities, count);
+    this.stagePositions = resizeArray(this.stagePositions, count * 2);
+    this.previousPositions = resizeArray(this.previousPositions, count * 2);
+
+    // Added slots hold new particles
+    const oldLength = this.particleIds.length;
+    this.particleIds = resizeArray(this.particleIds, count);
+    this.assignParticleIds(oldLength);
+
+    this.forcesValid = false;
+    this.appearanceRevision++;
+  }
+
   public update(deltaTime: number): void {
-    // Reset forces
-    this.forces.fill(0);
+    this.updateRange();
+    this.ensureSpeciesCache();
+
+    switch (this.integrator) {
+      case "verlet":
+        this.stepVerlet(deltaTime);
+        break;
+      case "rk4":
+        this.stepRK4(deltaTime);
+        break;
+      default:
+        this.stepEuler(deltaTime);
+        break;
+    }
+
+    // Positions changed, neighbor grid must be rebuilt before next use
+    this.gridDirty = true;
+  }
+
+  /**
+   * Recompute this instance's slice of the particles for the current count
+   */
+  private updateRange(): void {
+    const count = this.particleCount;
+    this.rangeStart = Math.floor(
+      (count * this.partitionIndex) / this.partitionCount,
+    );
+    this.rangeEnd = Math.floor(
+      (count * (this.partitionIndex + 1)) / this.partitionCount,
+    );
+  }
 
+  private stepEuler(deltaTime: number): void {
     // Calculate particle interactions
-    this.calculateForces();
+    this.computeForces(this.positions, this.forces);
 
     // Physics integration
     this.integrate(deltaTime);
 
     // Handle boundaries
     this.handleBoundaries();
+
+    // Forces belong to the positions before the step
+    this.forcesValid = false;
   }
 
-  private calculateForces(): void {
-    const sensingRadiusSquared = this.sensingRadius * this.sensingRadius;
+  /**
+   * Velocity Verlet: drift with the current acceleration, re-evaluate forces
+   * at the new positions, then kick with the average of both
+   */
+  private stepVerlet(deltaTime: number): void {
+    const forceScale = this.physics.forceScale;
+    const start = this.rangeStart * 2;
+    const end = this.rangeEnd * 2;
 
-    for (let i = 0; i < this.particleCount; i++) {
-      const x1 = this.positions[i * 2];
-      const y1 = this.positions[i * 2 + 1];
-      const color1 = this.colorIndices[i];
+    if (!this.forcesValid) {
+      this.computeForces(this.positions, this.forces);
+    }
+
+    const halfDtSquared = 0.5 * deltaTime * deltaTime * forceScale;
+    for (let k = start; k < end; k++) {
+      this.positions[k] +=
+        this.velocities[k] * deltaTime + this.forces[k] * halfDtSquared;
+    }
+
+    this.handleBoundaries();
 
-      for (let j = i + 1; j < this.particleCount; j++) {
-        const x2 = this.positions[j * 2];
-        const y2 = this.positions[j * 2 + 1];
-        const color2 = this.colorIndices[j];
+    this.previousForces = ensureLength(
+      this.previousForces,
+      this.particleCount * 2,
+    );
+    this.previousForces.set(this.forces.subarray(start, end), start);
 
-        // Calculate distance
-        const dx = x2 - x1;
-        const dy = y2 - y1;
-        const distanceSquared = dx * dx + dy * dy;
+    this.gridDirty = true;
+    this.computeForces(this.positions, this.forces);
 
-        // Skip if outside sensing radius
-        if (distanceSquared > sensingRadiusSquared) continue;
+    const halfDt = 0.5 * deltaTime * forceScale;
+    for (let i = this.rangeStart; i < this.rangeEnd; i++) {
+      const px = i * 2;
+      const py = i * 2 + 1;
+      this.velocities[px] +=
+        (this.previousForces[px] + this.forces[px]) * halfDt;
+      this.velocities[py] +=
+        (this.previousForces[py] + this.forces[py]) * halfDt;
+      this.limitVelocity(i);
+    }
 
-        // Calculate actual distance for normalization
-        const distance = Math.sqrt(distanceSquared);
+    this.forcesValid = true;
+  }
 
-        // Normalized direction vectors
-        const dirX = dx / distance;
-        const dirY = dy / distance;
+  /**
+   * Classic RK4 on (position, velocity). Damping and the speed limit are
+   * applied once after the full step.
+   */
+  private stepRK4(deltaTime: number): void {
+    const forceScale = this.physics.forceScale;
+    const count = this.particleCount * 2;
+    const start = this.rangeStart * 2;
+    const end = this.rangeEnd * 2;
 
-        // Normalize distance to 0-1 range (based on sensing radius)
-        const normalizedDistance = distance / this.sensingRadius;
+    this.stageVelocities = ensureLength(this.stageVelocities, count);
+    this.stageForces = ensureLength(this.stageForces, count);
+    this.velocitySum = ensureLength(this.velocitySum, count);
+    this.forceSum = ensureLength(this.forceSum, count);
 
-        // Get interaction rules (asymmetric)
-        const rule1to2 = this.colorMatrix[color1 * this.colorCount + color2];
-        const rule2to1 = this.colorMatrix[color2 * this.colorCount + color1];
+    // Stage 1 at the current state
+    this.computeForces(this.positions, this.forces);
+    this.velocitySum.set(this.velocities.subarray(start, end), start);
+    this.forceSum.set(this.forces.subarray(start, end), start);
 
-        // Calculate force using proper particle life force function
-        const force1Magnitude = this.particleLifeForce(
-          normalizedDistance,
-          rule1to2,
-        );
-        const force2Magnitude = this.particleLifeForce(
-          normalizedDistance,
-          rule2to1,
-        );
+    let stageVelocity = this.velocities;
+    let stageForce = this.forces;
 
-        // Apply forces
-        const force1X = dirX * force1Magnitude;
-        const force1Y = dirY * force1Magnitude;
-        const force2X = -dirX * force2Magnitude;
-        const force2Y = -dirY * force2Magnitude;
-
-        // Accumulate forces
-        this.forces[i * 2] += force1X;
-        this.forces[i * 2 + 1] += force1Y;
-        this.forces[j * 2] += force2X;
-        this.forces[j * 2 + 1] += force2Y;
+    // Stages 2-4: step fractions and their weights in the final sum
+    const fractions = [0.5, 0.5, 1];
+    const weights = [2, 2, 1];
+
+    for (let stage = 0; stage < 3; stage++) {
+      const h = deltaTime * fractions[stage];
+
+      for (let k = start; k < end; k++) {
+        this.stagePositions[k] = this.positions[k] + stageVelocity[k] * h;
+        this.stageVelocities[k] =
+          this.velocities[k] + stageForce[k] * forceScale * h;
+      }
+
+      this.computeForces(this.stagePositions, this.stageForces);
+
+      const weight = weights[stage];
+      for (let k = start; k < end; k++) {
+        this.velocitySum[k] += this.stageVelocities[k] * weight;
+        this.forceSum[k] += this.stageForces[k] * weight;
       }
+
+      stageVelocity = this.stageVelocities;
+      stageForce = this.stageForces;
+    }
+
+    const sixthDt = deltaTime / 6;
+    for (let i = this.rangeStart; i < this.rangeEnd; i++) {
+      const px = i * 2;
+      const py = i * 2 + 1;
+      this.positions[px] += this.velocitySum[px] * sixthDt;
+      this.positions[py] += this.velocitySum[py] * sixthDt;
+      this.velocities[px] += this.forceSum[px] * sixthDt * forceScale;
+      this.velocities[py] += this.forceSum[py] * sixthDt * forceScale;
+      this.limitVelocity(i);
     }
+
+    this.handleBoundaries();
+    this.forcesValid = false;
   }
 
   /**
-   * Particle Life force function
-   * @param r - normalized distance (0-1)
-   * @param a - attraction rule (-1 to +1)
-   * @returns force magnitude
+   * Evaluate the forces on this instance's particles for the given positions
+   * into `forces`. Positions must not change while other threads read them,
+   * so every thread waits for the others before and after the pass.
    */
-  private particleLifeForce(r: number, a: number): number {
-    const beta = 0.3;
+  private computeForces(positions: Float32Array, forces: Float32Array): void {
+    this.synchronize();
+    this.ensurePairCache();
 
-    if (r < beta) {
-      // Repulsion zone - always repulsive regardless of attraction rule
-      return r / beta - 1;
-    } else if (beta < r && r < 1) {
-      // Attraction/repulsion zone with smooth falloff
-      return a * (1 - Math.abs(2 * r - 1 - beta) / (1 - beta));
+    if (positions === this.positions) {
+      this.ensureGrid();
     } else {
-      // No force beyond sensing radius
-      return 0;
+      // Intermediate state: grid no longer matches the real positions
+      this.rebuildGrid(positions);
+      this.gridDirty = true;
+    }
+
+    forces.fill(0, this.rangeStart * 2, this.rangeEnd * 2);
+    this.calculateForces(positions, forces);
+
+    // Push particles away from soft walls
+    if (this.boundaryMode === "soft") {
+      this.applyWallForces(positions, forces);
+    }
+
+    // Heavier species accelerate less
+    const inverseMass = this.speciesInverseMass;
+    for (let i = this.rangeStart; i < this.rangeEnd; i++) {
+      const scale = inverseMass[this.colorIndices[i]];
+      forces[i * 2] *= scale;
+      forces[i * 2 + 1] *= scale;
     }
+
+    this.synchronize();
   }
 
-  private integrate(deltaTime: number): void {
-    const damping = 0.98; // Slightly higher damping for stability
-    const maxSpeed = 120; // Moderate max speed
-    const forceScale = 150; // Moderate force scaling
+  /**
+   * Rebuild the spatial grid if particles moved since the last build
+   */
+  private ensureGrid(): void {
+    if (!this.gridDirty) return;
+
+    this.rebuildGrid(this.positions);
+    this.gridDirty = false;
+  }
+
+  private rebuildGrid(positions: Float32Array): void {
+    this.ensurePairCache();
+
+    // Cells as large as the longest interaction keep the 3x3 search exact
+    this.grid.rebuild(
+      positions,
+      this.particleCount,
+      this.getGridBounds(positions),
+      this.maxRadius,
+    );
+  }
+
+  /**
+   * Recompute per-pair radii and repulsion fractions after the matrices or
+   * physics parameters changed
+   */
+  private ensurePairCache(): void {
+    if (!this.pairCacheDirty) return;
+
+    const pairCount = this.colorCount * this.colorCount;
+    this.pairRadius = ensureLength(this.pairRadius, pairCount);
+    this.pairBeta = ensureLength(this.pairBeta, pairCount);
+    this.maxRadius = 0;
+
+    for (let k = 0; k < pairCount; k++) {
+      const radius = this.physics.sensingRadius * this.radiusMatrix[k];
+      const repulsion = this.physics.betaDistance * this.repulsionMatrix[k];
+
+      this.pairRadius[k] = radius;
+      this.pairBeta[k] = Math.min(repulsion / radius, 0.95);
+      this.maxRadius = Math.max(this.maxRadius, radius);
+    }
+
+    this.pairCacheDirty = false;
+  }
+
+  /**
+   * Area covered by the grid: the world rectangle, or the extent of all
+   * particles when the world is unbounded
+   */
+  private getGridBounds(positions: Float32Array): GridBounds {
+    if (this.boundaryMode !== "none" || this.particleCount === 0) {
+      return {
+        minX: -this.worldSize.width / 2,
+        minY: -this.worldSize.height / 2,
+        width: this.worldSize.width,
+        height: this.worldSize.height,
+      };
+    }
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
 
     for (let i = 0; i < this.particleCount; i++) {
+      const x = positions[i * 2];
+      const y = positions[i * 2 + 1];
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+
+    return { minX, minY, width: maxX - minX, height: maxY - minY };
+  }
+
+  /**
+   * Whether the world is a torus, i.e. particles wrap across the edges.
+   * Distances are then measured to the nearest periodic image.
+   */
+  private isPeriodic(): boolean {
+    return this.boundaryMode === "wrap";
+  }
+
+  private calculateForces(positions: Float32Array, forces: Float32Array): void {
+    const grid = this.grid;
+    const cellStart = grid.cellStart;
+    const cellParticles = grid.cellParticles;
+    const forceFunction = this.forceFunction;
+    const pairRadius = this.pairRadius;
+    const pairBeta = this.pairBeta;
+    const maxRadiusSquared = this.maxRadius * this.maxRadius;
+    const inverseMaxRadiusSquared = 1 / maxRadiusSquared;
+
+    const periodic = this.isPeriodic();
+    const width = this.worldSize.width;
+    const height = this.worldSize.height;
+    const halfWidth = width / 2;
+    const halfHeight = height / 2;
+
+    for (let i = this.rangeStart; i < this.rangeEnd; i++) {
+      const x1 = positions[i * 2];
+      const y1 = positions[i * 2 + 1];
+      const pairRow = this.colorIndices[i] * this.colorCount;
+
+      const colCount = grid.neighborColumns(
+        grid.cellX(x1),
+        periodic,
+        this.neighborCols,
+      );
+      const rowCount = grid.neighborRows(
+        grid.cellY(y1),
+        periodic,
+        this.neighborRows,
+      );
+
+      let forceX = 0;
+      let forceY = 0;
+      let neighbors = 0;
+      let density = 0;
+
+      // Only particles in the surrounding 3x3 cells can be within range
+      for (let r = 0; r < rowCount; r++) {
+        for (let c = 0; c < colCount; c++) {
+          const cell = this.neighborRows[r] * grid.cols + this.neighborCols[c];
+
+          for (let k = cellStart[cell]; k < cellStart[cell + 1]; k++) {
+            const j = cellParticles[k];
+            if (j === i) continue;
+
+            // Calculate distance
+            let dx = positions[j * 2] - x1;
+            let dy = positions[j * 2 + 1] - y1;
+
+            // Minimum image: measure across the seam if that is shorter
+            if (periodic) {
+              if (dx > halfWidth) dx -= width;
+              else if (dx < -halfWidth) dx += width;
+              if (dy > halfHeight) dy -= height;
+              else if (dy < -halfHeight) dy += height;
+            }
+
+            const distanceSquared = dx * dx + dy * dy;
+
+            // Skip if outside every sensing radius (or exactly overlapping)
+            if (distanceSquared > maxRadiusSquared || distanceSquared === 0)
+              continue;
+
+            // Smooth falloff to zero at the largest radius, no square root
+            const falloff = 1 - distanceSquared * inverseMaxRadiusSquared;
+            density += falloff * falloff;
+
+            // How this particle's color reacts to the other (asymmetric)
+            const pair = pairRow + this.colorIndices[j];
+            const sensingRadius = pairRadius[pair];
+            if (distanceSquared > sensingRadius * sensingRadius) continue;
+            neighbors++;
+
+            const distance = Math.sqrt(distanceSquared);
+
+            // Normalize distance to 0-1 range (based on the pair's radius)
+            const normalizedDistance = distance / sensingRadius;
+
+            const forceMagnitude = forceFunction(
+              normalizedDistance,
+              this.colorMatrix[pair],
+              pairBeta[pair],
+            );
+
+            // Accumulate along the normalized direction vector
+            forceX += (dx / distance) * forceMagnitude;
+            forceY += (dy / distance) * forceMagnitude;
+          }
+        }
+      }
+
+      forces[i * 2] += forceX;
+      forces[i * 2 + 1] += forceY;
+      this.neighborCounts[i] = neighbors;
+      this.densities[i] = density;
+    }
+  }
+
+  /**
+   * Select the kernel and its parameters, returning the force function.
+   * Unknown kernel ids fall back to the Particle Life kernel.
+   */
+  private applyForceKernel(
+    id: string,
+    parameters: Partial<ForceKernelParameters> = {},
+  ): ForceFunction {
+    const kernel = getForceKernel(id);
+    const current = kernel.id === this.forceKernel ? this.kernelParameters : {};
+
+    this.forceKernel = kernel.id;
+    this.kernelParameters = validateKernelParameters(
+      kernel,
+      current,
+      parameters,
+    );
+    this.forceFunction = kernel.create(this.kernelParameters);
+    return this.forceFunction;
+  }
+
+  private integrate(deltaTime: number): void {
+    const forceScale = this.physics.forceScale;
+
+    for (let i = this.rangeStart; i < this.rangeEnd; i++) {
       const px = i * 2;
       const py = i * 2 + 1;
 
@@ -229,19 +785,7 @@ export class ParticleSystem {
       this.velocities[px] += this.forces[px] * deltaTime * forceScale;
       this.velocities[py] += this.forces[py] * deltaTime * forceScale;
 
-      // Apply damping
-      this.velocities[px] *= damping;
-      this.velocities[py] *= damping;
-
-      // Clamp velocity
-      const speed = Math.sqrt(
-        this.velocities[px] * this.velocities[px] +
-          this.velocities[py] * this.velocities[py],
-      );
-      if (speed > maxSpeed) {
-        this.velocities[px] = (this.velocities[px] / speed) * maxSpeed;
-        this.velocities[py] = (this.velocities[py] / speed) * maxSpeed;
-      }
+      this.limitVelocity(i);
 
       // Update positions
       this.positions[px] += this.velocities[px] * deltaTime;
@@ -249,11 +793,107 @@ export class ParticleSystem {
     }
   }
 
+  /**
+   * Recompute per-species damping, speed limits and inverse masses after
+   * the species or physics parameters changed
+   */
+  private ensureSpeciesCache(): void {
+    if (!this.speciesCacheDirty) return;
+
+    const count = this.colorCount;
+    // Plain arrays keep double precision, so default species reproduce
+    // the global parameters exactly
+    this.speciesInverseMass = [];
+    this.speciesDamping = [];
+    this.speciesMaxSpeed = [];
+
+    for (let c = 0; c < count; c++) {
+      const species = this.species[c];
+      this.speciesInverseMass.push(1 / species.mass);
+      // Scaling the friction scales the exponential velocity decay rate
+      this.speciesDamping.push(this.physics.damping ** species.frictionScale);
+      this.speciesMaxSpeed.push(this.physics.maxSpeed * species.speedScale);
+    }
+
+    this.speciesCacheDirty = false;
+  }
+
+  /**
+   * Apply damping and clamp a particle's velocity to its species' max speed
+   */
+  private limitVelocity(i: number): void {
+    const colorIndex = this.colorIndices[i];
+    const damping = this.speciesDamping[colorIndex];
+    const maxSpeed = this.speciesMaxSpeed[colorIndex];
+    const px = i * 2;
+    const py = i * 2 + 1;
+
+    // Apply damping
+    this.velocities[px] *= damping;
+    this.velocities[py] *= damping;
+
+    // Clamp velocity
+    const speed = Math.sqrt(
+      this.velocities[px] * this.velocities[px] +
+        this.velocities[py] * this.velocities[py],
+    );
+    if (speed > maxSpeed) {
+      this.velocities[px] = (this.velocities[px] / speed) * maxSpeed;
+      this.velocities[py] = (this.velocities[py] / speed) * maxSpeed;
+    }
+  }
+
+  /**
+   * Soft walls: a repulsive force that ramps up over one sensing radius
+   */
+  private applyWallForces(positions: Float32Array, forces: Float32Array): void {
+    const halfWidth = this.worldSize.width / 2;
+    const halfHeight = this.worldSize.height / 2;
+    const margin = this.physics.sensingRadius;
+    const strength = 1.0;
+
+    for (let i = this.rangeStart; i < this.rangeEnd; i++) {
+      const px = i * 2;
+      const py = i * 2 + 1;
+
+      const left = positions[px] + halfWidth;
+      const right = halfWidth - positions[px];
+      const top = positions[py] + halfHeight;
+      const bottom = halfHeight - positions[py];
+
+      if (left < margin) forces[px] += strength * (1 - left / margin);
+      if (right < margin) forces[px] -= strength * (1 - right / margin);
+      if (top < margin) forces[py] += strength * (1 - top / margin);
+      if (bottom < margin) forces[py] -= strength * (1 - bottom / margin);
+    }
+  }
+
   private handleBoundaries(): void {
+    switch (this.boundaryMode) {
+      case "wrap":
+        this.wrapBoundaries();
+        break;
+      case "reflect":
+        this.reflectBoundaries();
+        break;
+      case "clamp":
+      case "soft":
+        // Soft walls rely on forces, clamping only catches fast particles
+        this.clampBoundaries();
+        break;
+      case "circle":
+        this.circleBoundary();
+        break;
+      case "none":
+        break;
+    }
+  }
+
+  private wrapBoundaries(): void {
     const halfWidth = this.worldSize.width / 2;
     const halfHeight = this.worldSize.height / 2;
 
-    for (let i = 0; i < this.particleCount; i++) {
+    for (let i = this.rangeStart; i < this.rangeEnd; i++) {
       const px = i * 2;
       const py = i * 2 + 1;
 
@@ -269,6 +909,105 @@ export class ParticleSystem {
     }
   }
 
+  private reflectBoundaries(): void {
+    const halfWidth = this.worldSize.width / 2;
+    const halfHeight = this.worldSize.height / 2;
+
+    for (let i = this.rangeStart; i < this.rangeEnd; i++) {
+      const px = i * 2;
+      const py = i * 2 + 1;
+
+      // Mirror the position back inside and invert the normal velocity
+      if (this.positions[px] < -halfWidth) {
+        this.positions[px] = Math.min(
+          -2 * halfWidth - this.positions[px],
+          halfWidth,
+        );
+        this.velocities[px] = Math.abs(this.velocities[px]);
+      } else if (this.positions[px] > halfWidth) {
+        this.positions[px] = Math.max(
+          2 * halfWidth - this.positions[px],
+          -halfWidth,
+        );
+        this.velocities[px] = -Math.abs(this.velocities[px]);
+      }
+
+      if (this.positions[py] < -halfHeight) {
+        this.positions[py] = Math.min(
+          -2 * halfHeight - this.positions[py],
+          halfHeight,
+        );
+        this.velocities[py] = Math.abs(this.velocities[py]);
+      } else if (this.positions[py] > halfHeight) {
+        this.positions[py] = Math.max(
+          2 * halfHeight - this.positions[py],
+          -halfHeight,
+        );
+        this.velocities[py] = -Math.abs(this.velocities[py]);
+      }
+    }
+  }
+
+  private clampBoundaries(): void {
+    const halfWidth = this.worldSize.width / 2;
+    const halfHeight = this.worldSize.height / 2;
+
+    for (let i = this.rangeStart; i < this.rangeEnd; i++) {
+      const px = i * 2;
+      const py = i * 2 + 1;
+
+      // Stop at the wall and drop any outward velocity
+      if (this.positions[px] < -halfWidth) {
+        this.positions[px] = -halfWidth;
+        this.velocities[px] = Math.max(0, this.velocities[px]);
+      } else if (this.positions[px] > halfWidth) {
+        this.positions[px] = halfWidth;
+        this.velocities[px] = Math.min(0, this.velocities[px]);
+      }
+
+      if (this.positions[py] < -halfHeight) {
+        this.positions[py] = -halfHeight;
+        this.velocities[py] = Math.max(0, this.velocities[py]);
+      } else if (this.positions[py] > halfHeight) {
+        this.positions[py] = halfHeight;
+        this.velocities[py] = Math.min(0, this.velocities[py]);
+      }
+    }
+  }
+
+  private circleBoundary(): void {
+    const radius = this.getArenaRadius();
+    const radiusSquared = radius * radius;
+
+    for (let i = this.rangeStart; i < this.rangeEnd; i++) {
+      const px = i * 2;
+      const py = i * 2 + 1;
+      const x = this.positions[px];
+      const y = this.positions[py];
+      const distanceSquared = x * x + y * y;
+
+      if (distanceSquared <= radiusSquared) continue;
+
+      // Project back onto the rim and reflect the outward velocity
+      const distance = Math.sqrt(distanceSquared);
+      const nx = x / distance;
+      const ny = y / distance;
+      this.positions[px] = nx * radius;
+      this.positions[py] = ny * radius;
+
+      const normalVelocity =
+        this.velocities[px] * nx + this.velocities[py] * ny;
+      if (normalVelocity > 0) {
+        this.velocities[px] -= 2 * normalVelocity * nx;
+        this.velocities[py] -= 2 * normalVelocity * ny;
+      }
+    }
+  }
+
+  private getArenaRadius(): number {
+    return Math.min(this.worldSize.width, this.worldSize.height) / 2;
+  }
+
   // Public methods for interaction
   public setColorRule(colorA: number, colorB: number, strength: number): void {
     if (
@@ -278,6 +1017,8 @@ export class ParticleSystem {
       colorB < this.colorCount
     ) {
       this.colorMatrix[colorA * this.colorCount + colorB] = strength;
+      this.forcesValid = false;
+      this.revision++;
     }
   }
 
@@ -293,55 +1034,1117 @@ export class ParticleSystem {
     return 0;
   }
 
-  public randomizeRules(): void {
-    for (let i = 0; i < this.colorCount; i++) {
-      for (let j = 0; j < this.colorCount; j++) {
-        if (i === j) {
-          // Same color - repulsion
-          this.colorMatrix[i * this.colorCount + j] = -0.4;
-        } else {
-          // Random asymmetric rules - stronger
-          this.colorMatrix[i * this.colorCount + j] =
-            (Math.random() - 0.5) * 3.0;
-        }
-      }
+  /**
+   * Set how far colorA senses colorB, as a multiple of the sensing radius
+   */
+  public setRadiusScale(colorA: number, colorB: number, scale: number): void {
+    if (this.setPairScale(this.radiusMatrix, colorA, colorB, scale, "radius")) {
+      // Grid cell size follows the largest radius
+      this.gridDirty = true;
     }
   }
 
-  public setSensingRadius(radius: number): void {
-    this.sensingRadius = radius;
-  }
+  /**
+   * Update any subset of one species' properties.
+   * Values are validated and clamped to SPECIES_PROPERTY_RANGES.
+   */
+  public setSpeciesProperties(
+    colorIndex: number,
+    properties: Partial<SpeciesProperties>,
+  ): void {
+    if (colorIndex < 0 || colorIndex >= this.colorCount) return;
+
+    const previousSize = this.species[colorIndex].size;
+    this.species[colorIndex] = validateSpeciesProperties(
+      this.species[colorIndex],
+      properties,
+    );
+
+    if (this.species[colorIndex].size !== previousSize) {
+      for (let i = 0; i < this.particleCount; i++) {
+        if (this.colorIndices[i] === colorIndex) {
+          this.sizes[i] = this.species[colorIndex].size;
+        }
+      }
+      this.appearanceRevision++;
+    }
+
+    this.speciesCacheDirty = true;
+    this.forcesValid = false;
+    this.revision++;
+  }
+
+  public getSpeciesProperties(colorIndex: number): SpeciesProperties {
+    return { ...(this.species[colorIndex] ?? DEFAULT_SPECIES_PROPERTIES) };
+  }
+
+  public getRadiusScale(colorA: number, colorB: number): number {
+    return this.getPairScale(this.radiusMatrix, colorA, colorB);
+  }
+
+  /**
+   * Set the repulsion zone of colorA towards colorB, as a multiple of the
+   * repulsion distance
+   */
+  public setRepulsionScale(
+    colorA: number,
+    colorB: number,
+    scale: number,
+  ): void {
+    this.setPairScale(this.repulsionMatrix, colorA, colorB, scale, "repulsion");
+  }
+
+  public getRepulsionScale(colorA: number, colorB: number): number {
+    return this.getPairScale(this.repulsionMatrix, colorA, colorB);
+  }
+
+  private setPairScale(
+    matrix: Float32Array,
+    colorA: number,
+    colorB: number,
+    scale: number,
+    kind: "radius" | "repulsion",
+  ): boolean {
+    if (
+      colorA < 0 ||
+      colorA >= this.colorCount ||
+      colorB < 0 ||
+      colorB >= this.colorCount
+    ) {
+      return false;
+    }
+
+    matrix[colorA * this.colorCount + colorB] = clampPairScale(kind, scale);
+    this.pairCacheDirty = true;
+    this.forcesValid = false;
+    this.revision++;
+    return true;
+  }
+
+  private getPairScale(
+    matrix: Float32Array,
+    colorA: number,
+    colorB: number,
+  ): number {
+    if (
+      colorA >= 0 &&
+      colorA < this.colorCount &&
+      colorB >= 0 &&
+      colorB < this.colorCount
+    ) {
+      return matrix[colorA * this.colorCount + colorB];
+    }
+    return 1;
+  }
+
+  /**
+   * Regenerate the initial particle state from a seed (the current one if
+   * omitted). Counts, rules and parameters are kept.
+   */
+  public reset(seed: number = this.seed): void {
+    this.seed = seed >>> 0;
+    this.random = new Random(deriveSeed(this.seed, SEED_STREAM_PARTICLES));
+    this.ruleRandom = new Random(deriveSeed(this.seed, SEED_STREAM_RULES));
+    this.toolRandom = new Random(deriveSeed(this.seed, SEED_STREAM_TOOLS));
+
+    this.forces.fill(0);
+    this.neighborCounts.fill(0);
+    this.densities.fill(0);
+    this.initializeParticles();
+    this.previousPositions.set(this.positions);
+    this.gridDirty = true;
+    this.forcesValid = false;
+    this.revision++;
+  }
+
+  /**
+   * Remember the current positions as the start of the next fixed step
+   */
+  public storePreviousPositions(): void {
+    this.previousPositions.set(this.positions);
+  }
+
+  /**
+   * Positions blended between the previous and current fixed step.
+   * Particles that jumped more than half the world (wrapped) are not blended.
+   */
+  public getInterpolatedPositions(alpha: number): Float32Array {
+    if (alpha >= 1) return this.positions;
+
+    this.interpolatedPositions = ensureLength(
+      this.interpolatedPositions,
+      this.particleCount * 2,
+    );
+
+    return interpolatePositions(
+      this.previousPositions,
+      this.positions,
+      alpha,
+      this.worldSize,
+      this.interpolatedPositions,
+    );
+  }
+
+  /**
+   * Colors of all species as RGB triples (a copy)
+   */
+  public getPalette(): Float32Array {
+    return this.colorPalette.slice();
+  }
+
+  /**
+   * Replace the species colors; ignored unless it has one RGB triple per color
+   */
+  public setPalette(palette: Float32Array): void {
+    if (palette.length !== this.colorCount * 3) return;
+
+    this.colorPalette = palette.slice();
+    for (let i = 0; i < this.particleCount; i++) {
+      this.assignColor(i, this.colorIndices[i]);
+    }
+  }
+
+  public setIntegrator(integrator: Integrator): void {
+    this.integrator = integrator;
+    this.forcesValid = false;
+    this.revision++;
+  }
+
+  public getIntegrator(): Integrator {
+    return this.integrator;
+  }
+
+  /**
+   * Switch the force law. Parameters not given keep their current values
+   * if the kernel is unchanged, otherwise they start at the defaults.
+   */
+  public setForceKernel(
+    id: string,
+    parameters?: Partial<ForceKernelParameters>,
+  ): void {
+    this.applyForceKernel(id, parameters);
+    this.forcesValid = false;
+    this.revision++;
+  }
+
+  public getForceKernel(): string {
+    return this.forceKernel;
+  }
+
+  public getKernelParameters(): ForceKernelParameters {
+    return { ...this.kernelParameters };
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  public getParticleCount(): number {
+    return this.particleCount;
+  }
+
+  public getColorCount(): number {
+    return this.colorCount;
+  }
+
+  /**
+   * Grow or shrink the population without resetting the world.
+   * New particles spawn next to randomly chosen existing ones and inherit
+   * their species and velocity, removed particles are picked at random.
+   */
+  public setParticleCount(count: number): void {
+    const newCount = Math.max(0, Math.floor(count));
+    const oldCount = this.particleCount;
+    if (newCount === oldCount) return;
+
+    // Remove random particles by moving the last ones into their slots
+    for (let remaining = oldCount; remaining > newCount; remaining--) {
+      const removed = this.random.int(remaining);
+      this.copyParticle(remaining - 1, removed);
+    }
+
+    this.resizeArrays(newCount);
+
+    const spawnRadius = this.physics.sensingRadius * 0.25;
+
+    for (let i = oldCount; i < newCount; i++) {
+      if (oldCount === 0) {
+        this.positions[i * 2] =
+          (this.random.next() - 0.5) * this.worldSize.width;
+        this.positions[i * 2 + 1] =
+          (this.random.next() - 0.5) * this.worldSize.height;
+        this.assignColor(i, this.random.int(this.colorCount));
+      } else {
+        const source = this.random.int(oldCount);
+        const angle = this.random.next() * Math.PI * 2;
+        const distance = this.random.next() * spawnRadius;
+
+        this.positions[i * 2] =
+          this.positions[source * 2] + Math.cos(angle) * distance;
+        this.positions[i * 2 + 1] =
+          this.positions[source * 2 + 1] + Math.sin(angle) * distance;
+        this.velocities[i * 2] = this.velocities[source * 2];
+        this.velocities[i * 2 + 1] = this.velocities[source * 2 + 1];
+        this.assignColor(i, this.colorIndices[source]);
+      }
+
+      this.previousPositions[i * 2] = this.positions[i * 2];
+      this.previousPositions[i * 2 + 1] = this.positions[i * 2 + 1];
+    }
+
+    this.particleCount = newCount;
+    this.gridDirty = true;
+    this.revision++;
+  }
+
+  /**
+   * Change the number of species without resetting the world.
+   * Existing rules are kept, and particles are remapped so every species
+   * stays evenly represented.
+   */
+  public setColorCount(count: number): void {
+    const newCount = Math.max(1, Math.min(256, Math.floor(count)));
+    const oldCount = this.colorCount;
+    if (newCount === oldCount) return;
+
+    // Resize the rule matrix, keeping rules between surviving colors
+    const matrix = new Float32Array(newCount * newCount);
+    for (let i = 0; i < newCount; i++) {
+      for (let j = 0; j < newCount; j++) {
+        if (i < oldCount && j < oldCount) {
+          matrix[i * newCount + j] = this.colorMatrix[i * oldCount + j];
+        } else if (i === j) {
+          matrix[i * newCount + j] = -0.4;
+        } else {
+          matrix[i * newCount + j] = (this.ruleRandom.next() - 0.5) * 3.0;
+        }
+      }
+    }
+
+    this.colorCount = newCount;
+    this.colorMatrix = matrix;
+    this.radiusMatrix = resizePairMatrix(this.radiusMatrix, oldCount, newCount);
+    this.repulsionMatrix = resizePairMatrix(
+      this.repulsionMatrix,
+      oldCount,
+      newCount,
+    );
+    this.species = resizeSpeciesList(this.species, newCount);
+    this.colorPalette = resizePalette(this.colorPalette, newCount);
+    this.pairCacheDirty = true;
+    this.speciesCacheDirty = true;
+    this.gridDirty = true;
+    this.forcesValid = false;
+
+    const newShare = (newCount - oldCount) / newCount;
+
+    for (let i = 0; i < this.particleCount; i++) {
+      let colorIndex = this.colorIndices[i];
+
+      if (newCount < oldCount) {
+        // Fold removed species onto the remaining ones
+        colorIndex = colorIndex % newCount;
+      } else if (this.random.next() < newShare) {
+        // Convert a fair share of particles into the new species
+        colorIndex = oldCount + this.random.int(newCount - oldCount);
+      }
+
+      // Palette changed, so every particle gets its color refreshed
+      this.assignColor(i, colorIndex);
+    }
+
+    this.revision++;
+  }
+
+  public randomizeRules(): void {
+    for (let i = 0; i < this.colorCount; i++) {
+      for (let j = 0; j < this.colorCount; j++) {
+        if (i === j) {
+          // Same color - repulsion
+          this.colorMatrix[i * this.colorCount + j] = -0.4;
+        } else {
+          // Random asymmetric rules - stronger
+          this.colorMatrix[i * this.colorCount + j] =
+            (this.ruleRandom.next() - 0.5) * 3.0;
+        }
+      }
+    }
+
+    this.forcesValid = false;
+    this.revision++;
+  }
+
+  /**
+   * Update any subset of the physics parameters.
+   * Values are validated and clamped to PHYSICS_PARAMETER_RANGES.
+   */
+  public setPhysicsParameters(parameters: Partial<PhysicsParameters>): void {
+    const previousRadius = this.physics.sensingRadius;
+    this.physics = validatePhysicsParameters(this.physics, parameters);
+
+    // Grid cell size follows the sensing radius
+    if (this.physics.sensingRadius !== previousRadius) {
+      this.gridDirty = true;
+    }
+
+    this.pairCacheDirty = true;
+    this.speciesCacheDirty = true;
+    this.forcesValid = false;
+    this.revision++;
+  }
+
+  public getPhysicsParameters(): PhysicsParameters {
+    return { ...this.physics };
+  }
+
+  public setForceScale(scale: number): void {
+    this.setPhysicsParameters({ forceScale: scale });
+  }
+
+  public setMaxSpeed(speed: number): void {
+    this.setPhysicsParameters({ maxSpeed: speed });
+  }
+
+  public setDamping(damping: number): void {
+    this.setPhysicsParameters({ damping });
+  }
+
+  public setSensingRadius(radius: number): void {
+    this.setPhysicsParameters({ sensingRadius: radius });
+  }
 
   public setBetaDistance(distance: number): void {
-    this.betaDistance = distance;
+    this.setPhysicsParameters({ betaDistance: distance });
   }
 
   public setWorldSize(width: number, height: number): void {
     this.worldSize.width = width;
     this.worldSize.height = height;
+    this.gridDirty = true;
+    this.revision++;
   }
 
   public getWorldBounds(): { width: number; height: number } {
     return { ...this.worldSize };
   }
 
+  public setBoundaryMode(mode: BoundaryMode): void {
+    this.boundaryMode = mode;
+    this.gridDirty = true;
+    this.forcesValid = false;
+    this.revision++;
+  }
+
+  public getBoundaryMode(): BoundaryMode {
+    return this.boundaryMode;
+  }
+
+  /**
+   * Shape of the active boundary for drawing, or null when unbounded
+   */
+  public getBoundaryShape(): BoundaryShape | null {
+    switch (this.boundaryMode) {
+      case "none":
+        return null;
+      case "circle":
+        return { type: "circle", radius: this.getArenaRadius() };
+      default:
+        return {
+          type: "rect",
+          width: this.worldSize.width,
+          height: this.worldSize.height,
+        };
+    }
+  }
+
+  /**
+   * Copy the full world state, e.g. for saving a snapshot
+   */
+  public exportState(): ParticleSystemState {
+    const count = this.particleCount;
+    return {
+      seed: this.seed,
+      particleCount: count,
+      colorCount: this.colorCount,
+      worldSize: { ...this.worldSize },
+      physics: { ...this.physics },
+      boundaryMode: this.boundaryMode,
+      integrator: this.integrator,
+      forceKernel: this.forceKernel,
+      kernelParameters: { ...this.kernelParameters },
+      colorMatrix: this.colorMatrix.slice(),
+      radiusMatrix: this.radiusMatrix.slice(),
+      repulsionMatrix: this.repulsionMatrix.slice(),
+      species: this.species.map((species) => ({ ...species })),
+      palette: this.colorPalette.slice(),
+      positions: this.positions.slice(0, count * 2),
+      velocities: this.velocities.slice(0, count * 2),
+      colorIndices: this.colorIndices.slice(0, count),
+    };
+  }
+
+  /**
+   * Replace the whole world with a previously exported state
+   */
+  public importState(state: ParticleSystemState): void {
+    const count = state.particleCount;
+    const colorCount = Math.max(1, Math.min(256, state.colorCount));
+
+    this.seed = state.seed >>> 0;
+    this.random = new Random(deriveSeed(this.seed, SEED_STREAM_PARTICLES));
+    this.ruleRandom = new Random(deriveSeed(this.seed, SEED_STREAM_RULES));
+    this.toolRandom = new Random(deriveSeed(this.seed, SEED_STREAM_TOOLS));
+
+    this.worldSize = { ...state.worldSize };
+    this.physics = validatePhysicsParameters(this.physics, state.physics);
+    this.boundaryMode = state.boundaryMode;
+    this.integrator = state.integrator;
+    this.applyForceKernel(state.forceKernel, state.kernelParameters);
+
+    this.colorCount = colorCount;
+    this.colorMatrix =
+      state.colorMatrix.length === colorCount * colorCount
+        ? state.colorMatrix.slice()
+        : this.generateColorMatrix();
+    this.radiusMatrix = copyPairMatrix(
+      state.radiusMatrix,
+      colorCount,
+      "radius",
+    );
+    this.repulsionMatrix = copyPairMatrix(
+      state.repulsionMatrix,
+      colorCount,
+      "repulsion",
+    );
+    this.species = resizeSpeciesList(state.species, colorCount);
+    this.pairCacheDirty = true;
+    this.speciesCacheDirty = true;
+    this.colorPalette =
+      state.palette.length === colorCount * 3
+        ? state.palette.slice()
+        : generateHuePalette(colorCount);
+
+    this.resizeArrays(count);
+    this.assignParticleIds(0);
+    this.particleCount = count;
+    this.positions.set(state.positions.subarray(0, count * 2));
+    this.velocities.set(state.velocities.subarray(0, count * 2));
+    this.forces.fill(0);
+    this.neighborCounts.fill(0);
+    this.densities.fill(0);
+
+    for (let i = 0; i < count; i++) {
+      this.assignColor(i, state.colorIndices[i] % colorCount);
+    }
+
+    this.previousPositions.set(this.positions);
+    this.gridDirty = true;
+    this.forcesValid = false;
+    this.revision++;
+  }
+
+  /**
+   * Counter that changes whenever rules, parameters or the particle arrays
+   * change, so worker threads know when to resynchronize
+   */
+  public getRevision(): number {
+    return this.revision;
+  }
+
+  /**
+   * Counter that changes whenever particle colors or sizes change, so the
+   * renderer knows when to upload them again
+   */
+  public getAppearanceRevision(): number {
+    return this.appearanceRevision;
+  }
+
+  /**
+   * Everything a worker thread needs to simulate this world. The particle
+   * arrays are shared, so the system must have been created with `shared`.
+   */
+  public getSharedState(): SharedSimulationState {
+    if (
+      typeof SharedArrayBuffer === "undefined" ||
+      !(this.positions.buffer instanceof SharedArrayBuffer)
+    ) {
+      throw new Error("Particle data is not allocated in shared memory");
+    }
+
+    return {
+      buffers: {
+        positions: this.positions.buffer,
+        velocities: this.velocities.buffer as SharedArrayBuffer,
+        forces: this.forces.buffer as SharedArrayBuffer,
+        neighborCounts: this.neighborCounts.buffer as SharedArrayBuffer,
+        densities: this.densities.buffer as SharedArrayBuffer,
+        stagePositions: this.stagePositions.buffer as SharedArrayBuffer,
+        colorIndices: this.colorIndices.buffer as SharedArrayBuffer,
+      },
+      particleCount: this.particleCount,
+      colorCount: this.colorCount,
+      colorMatrix: this.colorMatrix.slice(),
+      radiusMatrix: this.radiusMatrix.slice(),
+      repulsionMatrix: this.repulsionMatrix.slice(),
+      species: this.species.map((species) => ({ ...species })),
+      physics: { ...this.physics },
+      boundaryMode: this.boundaryMode,
+      integrator: this.integrator,
+      forceKernel: this.forceKernel,
+      kernelParameters: { ...this.kernelParameters },
+      worldSize: { ...this.worldSize },
+    };
+  }
+
+  /**
+   * Adopt the state of another (main thread) system, viewing its shared
+   * particle arrays instead of owning copies
+   */
+  public applySharedState(state: SharedSimulationState): void {
+    const { buffers } = state;
+    this.positions = new Float32Array(buffers.positions);
+    this.velocities = new Float32Array(buffers.velocities);
+    this.forces = new Float32Array(buffers.forces);
+    this.neighborCounts = new Float32Array(buffers.neighborCounts);
+    this.densities = new Float32Array(buffers.densities);
+    this.stagePositions = new Float32Array(buffers.stagePositions);
+    this.colorIndices = new Uint8Array(buffers.colorIndices);
+
+    this.particleCount = state.particleCount;
+    this.colorCount = state.colorCount;
+    this.colorMatrix = state.colorMatrix;
+    this.radiusMatrix = copyPairMatrix(
+      state.radiusMatrix,
+      state.colorCount,
+      "radius",
+    );
+    this.repulsionMatrix = copyPairMatrix(
+      state.repulsionMatrix,
+      state.colorCount,
+      "repulsion",
+    );
+    this.species = state.species;
+    this.pairCacheDirty = true;
+    this.speciesCacheDirty = true;
+    this.physics = state.physics;
+    this.boundaryMode = state.boundaryMode;
+    this.integrator = state.integrator;
+    this.applyForceKernel(state.forceKernel, state.kernelParameters);
+    this.worldSize = state.worldSize;
+
+    this.gridDirty = true;
+    this.forcesValid = false;
+  }
+
+  /**
+   * Restrict `update` to one of `count` equal slices of the particles.
+   * `synchronize` must block until every slice has reached the same point.
+   */
+  public setPartition(
+    index: number,
+    count: number,
+    synchronize: () => void,
+  ): void {
+    this.partitionIndex = index;
+    this.partitionCount = Math.max(1, count);
+    this.synchronize = synchronize;
+  }
+
+  /**
+   * Positions were changed outside `update` (e.g. by worker threads)
+   */
+  public markMoved(): void {
+    this.gridDirty = true;
+    this.forcesValid = false;
+  }
+
+  /**
+   * Apply a mouse brush. Attract and repel act over `deltaTime` seconds like
+   * a force field that fades towards the rim; spawn adds particles at a rate
+   * proportional to the strength; erase and recolor affect every particle
+   * inside the radius.
+   */
+  public applyBrush(stroke: BrushStroke, deltaTime: number): void {
+    switch (stroke.tool) {
+      case "attract":
+        this.applyBrushForce(stroke, stroke.strength, deltaTime);
+        break;
+      case "repel":
+        this.applyBrushForce(stroke, -stroke.strength, deltaTime);
+        break;
+      case "spawn":
+        this.spawnParticles(stroke, deltaTime);
+        break;
+      case "erase":
+        this.removeParticles(
+          this.getParticlesInCircle(stroke.x, stroke.y, stroke.radius),
+        );
+        break;
+      case "recolor":
+        this.recolorParticles(
+          this.getParticlesInCircle(stroke.x, stroke.y, stroke.radius),
+          stroke.colorIndex,
+        );
+        break;
+    }
+  }
+
+  /**
+   * Indices of the particles within `radius` of a world position
+   */
+  public getParticlesInCircle(x: number, y: number, radius: number): number[] {
+    const candidates = this.getParticlesInRegion(
+      x - radius,
+      x + radius,
+      y - radius,
+      y + radius,
+    );
+
+    return candidates.filter((i) => {
+      const [dx, dy] = this.getOffset(x, y, i);
+      return dx * dx + dy * dy <= radius * radius;
+    });
+  }
+
+  /**
+   * Index of the particle closest to a world position, or -1 if none is
+   * within `maxDistance`
+   */
+  public findNearestParticle(
+    x: number,
+    y: number,
+    maxDistance: number,
+  ): number {
+    let nearest = -1;
+    let nearestSquared = maxDistance * maxDistance;
+
+    for (const i of this.getParticlesInCircle(x, y, maxDistance)) {
+      const [dx, dy] = this.getOffset(x, y, i);
+      const distanceSquared = dx * dx + dy * dy;
+      if (distanceSquared <= nearestSquared) {
+        nearest = i;
+        nearestSquared = distanceSquared;
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Stable id of the particle in a slot
+   */
+  public getParticleId(index: number): number {
+    return this.particleIds[index];
+  }
+
+  /**
+   * Current slot of a particle, or -1 once it has been removed
+   */
+  public findParticleIndex(id: number): number {
+    return this.particleIds.indexOf(id);
+  }
+
+  /**
+   * Snapshot of one particle, or null if the index is out of range
+   */
+  public getParticleInfo(index: number): ParticleInfo | null {
+    if (index < 0 || index >= this.particleCount) return null;
+
+    const x = this.positions[index * 2];
+    const y = this.positions[index * 2 + 1];
+    const colorIndex = this.colorIndices[index];
+
+    // Count the particles this one reacts to, each pair has its own radius
+    this.ensurePairCache();
+    const pairRow = colorIndex * this.colorCount;
+    let neighborCount = 0;
+    for (const j of this.getParticlesInCircle(x, y, this.maxRadius)) {
+      if (j === index) continue;
+      const [dx, dy] = this.getOffset(x, y, j);
+      const radius = this.pairRadius[pairRow + this.colorIndices[j]];
+      if (dx * dx + dy * dy <= radius * radius) neighborCount++;
+    }
+
+    return {
+      id: this.particleIds[index],
+      index,
+      colorIndex,
+      position: { x, y },
+      velocity: {
+        x: this.velocities[index * 2],
+        y: this.velocities[index * 2 + 1],
+      },
+      force: { x: this.forces[index * 2], y: this.forces[index * 2 + 1] },
+      neighborCount,
+    };
+  }
+
+  /**
+   * Per-particle value shown by a color mode (see ColorModes) into `out`,
+   * reallocated if too small. Heading is in degrees, 0 to 360.
+   */
+  public getColorValues(mode: ColorMode, out: Float32Array): Float32Array {
+    const count = this.particleCount;
+    const values = out.length >= count ? out : new Float32Array(count);
+    const velocities = this.velocities;
+    const forces = this.forces;
+
+    for (let i = 0; i < count; i++) {
+      switch (mode) {
+        case "speed":
+          values[i] = Math.hypot(velocities[i * 2], velocities[i * 2 + 1]);
+          break;
+        case "heading": {
+          const angle = Math.atan2(velocities[i * 2 + 1], velocities[i * 2]);
+          values[i] = ((angle * 180) / Math.PI + 360) % 360;
+          break;
+        }
+        case "force":
+          values[i] = Math.hypot(forces[i * 2], forces[i * 2 + 1]);
+          break;
+        case "density":
+          values[i] = this.densities[i];
+          break;
+        case "neighbors":
+          values[i] = this.neighborCounts[i];
+          break;
+        default:
+          values[i] = 0;
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Vector from a world position to a particle, across the seam if shorter
+   */
+  private getOffset(x: number, y: number, i: number): [number, number] {
+    let dx = this.positions[i * 2] - x;
+    let dy = this.positions[i * 2 + 1] - y;
+
+    if (this.isPeriodic()) {
+      dx -= this.worldSize.width * Math.round(dx / this.worldSize.width);
+      dy -= this.worldSize.height * Math.round(dy / this.worldSize.height);
+    }
+
+    return [dx, dy];
+  }
+
+  private applyBrushForce(
+    stroke: BrushStroke,
+    strength: number,
+    deltaTime: number,
+  ): void {
+    if (deltaTime <= 0) return;
+
+    const scale = strength * this.physics.forceScale * deltaTime;
+
+    for (const i of this.getParticlesInCircle(
+      stroke.x,
+      stroke.y,
+      stroke.radius,
+    )) {
+      const [dx, dy] = this.getOffset(stroke.x, stroke.y, i);
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      if (distance === 0) continue;
+
+      // Full strength at the center, nothing at the rim; heavy species
+      // respond less
+      const falloff = 1 - distance / stroke.radius;
+      const acceleration =
+        (scale * falloff) / this.species[this.colorIndices[i]].mass;
+
+      this.velocities[i * 2] -= (dx / distance) * acceleration;
+      this.velocities[i * 2 + 1] -= (dy / distance) * acceleration;
+    }
+  }
+
+  private spawnParticles(stroke: BrushStroke, deltaTime: number): void {
+    // Random rounding keeps the average rate at low frame times
+    const count = Math.min(
+      Math.floor(
+        stroke.strength * BRUSH_SPAWN_RATE * deltaTime + this.toolRandom.next(),
+      ),
+      MAX_PARTICLE_COUNT - this.particleCount,
+    );
+    if (count <= 0) return;
+
+    const colorIndex = Math.min(stroke.colorIndex, this.colorCount - 1);
+    const oldCount = this.particleCount;
+    const newCount = oldCount + count;
+    this.resizeArrays(newCount);
+
+    for (let i = oldCount; i < newCount; i++) {
+      // Uniform over the disc
+      const angle = this.toolRandom.next() * Math.PI * 2;
+      const distance = Math.sqrt(this.toolRandom.next()) * stroke.radius;
+      let x = stroke.x + Math.cos(angle) * distance;
+      let y = stroke.y + Math.sin(angle) * distance;
+
+      if (this.isPeriodic()) {
+        x -= this.worldSize.width * Math.round(x / this.worldSize.width);
+        y -= this.worldSize.height * Math.round(y / this.worldSize.height);
+      }
+
+      this.positions[i * 2] = x;
+      this.positions[i * 2 + 1] = y;
+      this.previousPositions[i * 2] = x;
+      this.previousPositions[i * 2 + 1] = y;
+      this.velocities[i * 2] = 0;
+      this.velocities[i * 2 + 1] = 0;
+      this.assignColor(i, colorIndex);
+    }
+
+    this.particleCount = newCount;
+    this.gridDirty = true;
+    this.revision++;
+  }
+
+  /**
+   * Delete particles by index, filling the gaps with the last particles
+   */
+  private removeParticles(indices: number[]): void {
+    if (indices.length === 0) return;
+
+    // Highest first, so a moved particle is never one still to be removed
+    const sorted = [...indices].sort((a, b) => b - a);
+    let remaining = this.particleCount;
+    for (const i of sorted) {
+      remaining--;
+      this.copyParticle(remaining, i);
+    }
+
+    this.resizeArrays(remaining);
+    this.particleCount = remaining;
+    this.gridDirty = true;
+    this.revision++;
+  }
+
+  private recolorParticles(indices: number[], colorIndex: number): void {
+    if (indices.length === 0) return;
+
+    const target = Math.min(colorIndex, this.colorCount - 1);
+    for (const i of indices) {
+      this.assignColor(i, target);
+    }
+
+    this.forcesValid = false;
+    this.revision++;
+  }
+
   public getParticlesInRegion(
     left: number,
     right: number,
     top: number,
     bottom: number,
   ): number[] {
+    this.ensureGrid();
+
     const visibleParticles: number[] = [];
 
-    for (let i = 0; i < this.particleCount; i++) {
+    if (!this.isPeriodic()) {
+      this.collectInRect(left, right, top, bottom, visibleParticles);
+      return visibleParticles;
+    }
+
+    // On a torus the region may cross the seam: split it into pieces that
+    // lie inside the canonical world rectangle
+    const xSpans = wrapInterval(
+      left,
+      right,
+      -this.worldSize.width / 2,
+      this.worldSize.width,
+    );
+    const ySpans = wrapInterval(
+      top,
+      bottom,
+      -this.worldSize.height / 2,
+      this.worldSize.height,
+    );
+
+    for (const [x0, x1] of xSpans) {
+      for (const [y0, y1] of ySpans) {
+        this.collectInRect(x0, x1, y0, y1, visibleParticles);
+      }
+    }
+
+    return visibleParticles;
+  }
+
+  /**
+   * Fill `out` with the particles in the grid cells overlapping a region and
+   * return how many there are: a superset of the particles inside it, as of
+   * the last grid build. `out` needs room for every particle.
+   */
+  public collectParticlesInRegion(
+    left: number,
+    right: number,
+    top: number,
+    bottom: number,
+    out: Uint32Array,
+  ): number {
+    return this.grid.collectRegion(
+      left,
+      right,
+      top,
+      bottom,
+      this.isPeriodic(),
+      out,
+    );
+  }
+
+  /**
+   * Rebuild the spatial grid if particles moved since the last build. Must
+   * not run while worker threads are writing the positions.
+   */
+  public refreshGrid(): void {
+    this.ensureGrid();
+  }
+
+  private collectInRect(
+    left: number,
+    right: number,
+    top: number,
+    bottom: number,
+    out: number[],
+  ): void {
+    const candidates: number[] = [];
+    this.grid.queryRegion(left, right, top, bottom, candidates);
+
+    for (const i of candidates) {
       const x = this.positions[i * 2];
       const y = this.positions[i * 2 + 1];
 
       if (x >= left && x <= right && y >= top && y <= bottom) {
-        visibleParticles.push(i);
+        out.push(i);
       }
     }
+  }
+}
 
-    return visibleParticles;
+/**
+ * Map [lo, hi] onto a periodic axis starting at min with the given size.
+ * Returns one interval, or two when it crosses the seam.
+ */
+function wrapInterval(
+  lo: number,
+  hi: number,
+  min: number,
+  size: number,
+): [number, number][] {
+  if (hi - lo >= size) return [[min, min + size]];
+
+  const start = min + ((((lo - min) % size) + size) % size);
+  const end = start + (hi - lo);
+
+  if (end <= min + size) return [[start, end]];
+  return [
+    [start, min + size],
+    [min, end - size],
+  ];
+}
+
+/**
+ * Blend two position arrays, skipping particles that jumped more than half
+ * the world (wrapped across an edge)
+ */
+export function interpolatePositions(
+  previous: Float32Array,
+  current: Float32Array,
+  alpha: number,
+  worldSize: { width: number; height: number },
+  out: Float32Array,
+): Float32Array {
+  const halfWidth = worldSize.width / 2;
+  const halfHeight = worldSize.height / 2;
+
+  for (let k = 0; k < out.length; k++) {
+    const start = previous[k];
+    const delta = current[k] - start;
+    const limit = k % 2 === 0 ? halfWidth : halfHeight;
+
+    out[k] = Math.abs(delta) > limit ? current[k] : start + delta * alpha;
   }
+
+  return out;
+}
+
+type TypedArrayConstructor<T> = {
+  new (length: number): T;
+  new (buffer: ArrayBufferLike): T;
+  readonly BYTES_PER_ELEMENT: number;
+};
+
+/**
+ * Allocate a typed array, optionally backed by a SharedArrayBuffer
+ */
+function createArray<T>(
+  type: TypedArrayConstructor<T>,
+  length: number,
+  shared: boolean,
+): T {
+  if (!shared) return new type(length);
+  return new type(new SharedArrayBuffer(length * type.BYTES_PER_ELEMENT));
+}
+
+/**
+ * Copy a typed array into a new one of the given length (truncating or
+ * zero-filling as needed). Shared arrays stay shared.
+ */
+function resizeArray<T extends Float32Array | Uint8Array | Uint32Array>(
+  array: T,
+  length: number,
+): T {
+  const shared =
+    typeof SharedArrayBuffer !== "undefined" &&
+    array.buffer instanceof SharedArrayBuffer;
+  const resized = createArray(
+    array.constructor as TypedArrayConstructor<T>,
+    length,
+    shared,
+  );
+  resized.set(array.subarray(0, Math.min(array.length, length)));
+  return resized;
+}
+
+/**
+ * Resize a per-pair scale matrix, keeping entries between surviving colors
+ * and defaulting new pairs to 1
+ */
+function resizePairMatrix(
+  matrix: Float32Array,
+  oldCount: number,
+  newCount: number,
+): Float32Array {
+  const resized = new Float32Array(newCount * newCount).fill(1);
+  const kept = Math.min(oldCount, newCount);
+  for (let i = 0; i < kept; i++) {
+    for (let j = 0; j < kept; j++) {
+      resized[i * newCount + j] = matrix[i * oldCount + j];
+    }
+  }
+  return resized;
+}
+
+/**
+ * Copy an imported per-pair scale matrix with every entry clamped to its
+ * range, or all ones if it doesn't fit
+ */
+function copyPairMatrix(
+  matrix: Float32Array | undefined,
+  colorCount: number,
+  kind: "radius" | "repulsion",
+): Float32Array {
+  if (!matrix || matrix.length !== colorCount * colorCount) {
+    return new Float32Array(colorCount * colorCount).fill(1);
+  }
+  return matrix.map((value) => clampPairScale(kind, value));
+}
+
+/**
+ * Return the array if it already has the given length, otherwise a new one
+ */
+function ensureLength(array: Float32Array, length: number): Float32Array {
+  return array.length === length ? array : new Float32Array(length);
 }
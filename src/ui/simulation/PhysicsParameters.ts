@@ -0,0 +1,162 @@
+/**
+ * Tunable physics parameters of the particle simulation
+ */
+export interface PhysicsParameters {
+  forceScale: number; // Multiplier from force to acceleration
+  maxSpeed: number; // Velocity clamp in world units per second
+  damping: number; // Velocity retained per step (1 = no friction)
+  sensingRadius: number; // Maximum interaction distance
+  betaDistance: number; // Radius of the universal repulsion zone
+}
+
+export interface ParameterRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const DEFAULT_PHYSICS_PARAMETERS: PhysicsParameters = {
+  forceScale: 150,
+  maxSpeed: 120,
+  damping: 0.98,
+  sensingRadius: 80,
+  betaDistance: 24, // 0.3 of the default sensing radius
+};
+
+export const PHYSICS_PARAMETER_RANGES: Record<
+  keyof PhysicsParameters,
+  ParameterRange
+> = {
+  forceScale: { min: 0, max: 500, step: 5 },
+  maxSpeed: { min: 10, max: 500, step: 5 },
+  damping: { min: 0.8, max: 1, step: 0.005 },
+  sensingRadius: { min: 10, max: 300, step: 5 },
+  betaDistance: { min: 0, max: 150, step: 1 },
+};
+
+/**
+ * Matrices with one value per (color, other color) pair:
+ * - attraction: rule strength, negative values repel
+ * - radius: multiplier of the sensing radius
+ * - repulsion: multiplier of the repulsion zone radius (betaDistance)
+ */
+export type PairMatrixKind = "attraction" | "radius" | "repulsion";
+
+export const PAIR_MATRIX_RANGES: Record<PairMatrixKind, ParameterRange> = {
+  attraction: { min: -1, max: 1, step: 0.05 },
+  radius: { min: 0.25, max: 3, step: 0.05 },
+  repulsion: { min: 0, max: 3, step: 0.05 },
+};
+
+/**
+ * Clamp a per-pair radius or repulsion multiplier to its range
+ */
+export function clampPairScale(
+  kind: "radius" | "repulsion",
+  value: number,
+): number {
+  const range = PAIR_MATRIX_RANGES[kind];
+  if (!Number.isFinite(value)) return 1;
+  return Math.max(range.min, Math.min(range.max, value));
+}
+
+/**
+ * Clamp an attraction rule to its range; invalid values become neutral
+ */
+export function clampAttraction(value: number): number {
+  const range = PAIR_MATRIX_RANGES.attraction;
+  if (!Number.isFinite(value)) return 0;
+  return Math.max(range.min, Math.min(range.max, value));
+}
+
+/**
+ * Physical properties of one species (color)
+ */
+export interface SpeciesProperties {
+  mass: number; // Divides the force, heavier species accelerate less
+  size: number; // Render size in pixels
+  speedScale: number; // Multiplier of the global max speed
+  frictionScale: number; // Multiplier of the global friction (decay rate)
+}
+
+export const DEFAULT_SPECIES_PROPERTIES: SpeciesProperties = {
+  mass: 1,
+  size: 4,
+  speedScale: 1,
+  frictionScale: 1,
+};
+
+export const SPECIES_PROPERTY_RANGES: Record<
+  keyof SpeciesProperties,
+  ParameterRange
+> = {
+  mass: { min: 0.1, max: 10, step: 0.1 },
+  size: { min: 1, max: 16, step: 0.5 },
+  speedScale: { min: 0.1, max: 3, step: 0.05 },
+  frictionScale: { min: 0, max: 5, step: 0.1 },
+};
+
+/**
+ * Merge a partial update into a species' properties, same rules as
+ * validatePhysicsParameters
+ */
+export function validateSpeciesProperties(
+  current: SpeciesProperties,
+  update: Partial<SpeciesProperties>,
+): SpeciesProperties {
+  const result = { ...current };
+
+  const keys = Object.keys(
+    SPECIES_PROPERTY_RANGES,
+  ) as (keyof SpeciesProperties)[];
+
+  for (const key of keys) {
+    const value = update[key];
+    if (value === undefined || !Number.isFinite(value)) continue;
+
+    const range = SPECIES_PROPERTY_RANGES[key];
+    result[key] = Math.max(range.min, Math.min(range.max, value));
+  }
+
+  return result;
+}
+
+/**
+ * Resize (and validate) a species list, new species get the defaults
+ */
+export function resizeSpeciesList(
+  species: SpeciesProperties[],
+  count: number,
+): SpeciesProperties[] {
+  return Array.from({ length: count }, (_, index) =>
+    validateSpeciesProperties(
+      DEFAULT_SPECIES_PROPERTIES,
+      species[index] ?? DEFAULT_SPECIES_PROPERTIES,
+    ),
+  );
+}
+
+/**
+ * Merge a partial update into the current parameters.
+ * Non-finite values are ignored and the rest are clamped to their range.
+ */
+export function validatePhysicsParameters(
+  current: PhysicsParameters,
+  update: Partial<PhysicsParameters>,
+): PhysicsParameters {
+  const result = { ...current };
+
+  const keys = Object.keys(
+    PHYSICS_PARAMETER_RANGES,
+  ) as (keyof PhysicsParameters)[];
+
+  for (const key of keys) {
+    const value = update[key];
+    if (value === undefined || !Number.isFinite(value)) continue;
+
+    const range = PHYSICS_PARAMETER_RANGES[key];
+    result[key] = Math.max(range.min, Math.min(range.max, value));
+  }
+
+  return result;
+}
@@ -0,0 +1,79 @@
+// Independent random streams derived from a single world seed
+export const SEED_STREAM_PARTICLES = 1;
+export const SEED_STREAM_RULES = 2;
+export const SEED_STREAM_RANDOMIZE = 3;
+export const SEED_STREAM_TOOLS = 4;
+
+/**
+ * Small seedable PRNG (mulberry32). The same seed always produces the same
+ * sequence, which makes worlds reproducible across machines.
+ */
+export class Random {
+  public readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Uniform float in [0, 1)
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Uniform float in [min, max)
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Uniform integer in [0, max)
+   */
+  public int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Fresh unpredictable seed for a new world
+   */
+  public static createSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+  }
+}
+
+/**
+ * Derive the seed of an independent stream from a world seed
+ */
+export function deriveSeed(seed: number, stream: number): number {
+  let h = (seed ^ Math.imul(stream, 0x9e3779b1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Turn user input into a seed: numbers are used as-is, any other text is
+ * hashed (FNV-1a) so words work as seeds too
+ */
+export function parseSeed(text: string): number {
+  const trimmed = text.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) >>> 0;
+  }
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
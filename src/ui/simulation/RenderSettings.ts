@@ -0,0 +1,90 @@
+import type { ParameterRange } from "./PhysicsParameters";
+import { COLOR_MODES, type ColorMode } from "./ColorModes";
+
+/**
+ * How the renderer draws the world; doesn't affect the simulation
+ */
+export interface RenderSettings {
+  colorMode: ColorMode; // What the particle colors show
+  densityLod: boolean; // Draw a density map when zoomed far out
+  trails: boolean; // Fade previous frames out instead of clearing them
+  trailPersistence: number; // Fraction of the trail kept per 60 Hz frame
+  additiveBlending: boolean; // Overlapping particles add up (HDR)
+  bloom: boolean; // Screen-space glow around bright areas
+  bloomThreshold: number; // Brightness where the glow starts
+  bloomRadius: number; // Blur spread, in half-resolution pixels per tap
+  bloomIntensity: number; // Glow added on top of the image
+  toneMapping: boolean; // Compress HDR brightness into the displayable range
+  exposure: number; // Brightness scale before tone mapping
+}
+
+export const DEFAULT_RENDER_SETTINGS: RenderSettings = {
+  colorMode: "species",
+  densityLod: true,
+  trails: false,
+  trailPersistence: 0.9,
+  additiveBlending: false,
+  bloom: false,
+  bloomThreshold: 0.8,
+  bloomRadius: 1.5,
+  bloomIntensity: 0.8,
+  toneMapping: false,
+  exposure: 1,
+};
+
+type RangedSetting =
+  | "trailPersistence"
+  | "bloomThreshold"
+  | "bloomRadius"
+  | "bloomIntensity"
+  | "exposure";
+
+export const RENDER_SETTING_RANGES: Record<RangedSetting, ParameterRange> = {
+  trailPersistence: { min: 0.5, max: 0.99, step: 0.01 },
+  bloomThreshold: { min: 0, max: 2, step: 0.05 },
+  bloomRadius: { min: 0.5, max: 4, step: 0.1 },
+  bloomIntensity: { min: 0, max: 3, step: 0.05 },
+  exposure: { min: 0.25, max: 4, step: 0.05 },
+};
+
+/**
+ * Whether any post-processing stage is on; the image is then drawn through
+ * a floating-point target
+ */
+export function usesPostProcessing(settings: RenderSettings): boolean {
+  return settings.bloom || settings.toneMapping;
+}
+
+/**
+ * Merge a partial update into render settings, clamping to the ranges
+ */
+export function validateRenderSettings(
+  current: RenderSettings,
+  update: Partial<RenderSettings>,
+): RenderSettings {
+  const result = { ...current };
+
+  if (COLOR_MODES.some((mode) => mode.value === update.colorMode)) {
+    result.colorMode = update.colorMode as ColorMode;
+  }
+
+  for (const key of [
+    "densityLod",
+    "trails",
+    "additiveBlending",
+    "bloom",
+    "toneMapping",
+  ] as const) {
+    const value = update[key];
+    if (value !== undefined) result[key] = value;
+  }
+
+  for (const key of Object.keys(RENDER_SETTING_RANGES) as RangedSetting[]) {
+    const value = update[key];
+    if (value === undefined || !Number.isFinite(value)) continue;
+    const range = RENDER_SETTING_RANGES[key];
+    result[key] = Math.max(range.min, Math.min(range.max, value));
+  }
+
+  return result;
+}
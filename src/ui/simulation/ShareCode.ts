@@ -0,0 +1,338 @@
+import {
+  DEFAULT_FORCE_KERNEL_ID,
+  getForceKernel,
+  validateKernelParameters,
+  type ForceKernelParameters,
+} from "./ForceKernels";
+import { MAX_COLOR_COUNT, MIN_COLOR_COUNT } from "./ParticleSystem";
+import {
+  clampAttraction,
+  clampPairScale,
+  DEFAULT_PHYSICS_PARAMETERS,
+  DEFAULT_SPECIES_PROPERTIES,
+  resizeSpeciesList,
+  validatePhysicsParameters,
+  type PhysicsParameters,
+  type SpeciesProperties,
+} from "./PhysicsParameters";
+
+/**
+ * Share code layout (version 4, little-endian), encoded as base64url:
+ *
+ *   uint8     version
+ *   uint32    seed
+ *   uint8     color count (n)
+ *   float32   physics parameters, in SHARE_PHYSICS_KEYS order
+ *   uint8     palette, n x RGB
+ *   int16     interaction matrix, n x n row-major, in units of 1/1000
+ *   int16     radius matrix, same layout (missing in version 1)
+ *   int16     repulsion matrix, same layout (missing in version 1)
+ *   uint8     force kernel id length (missing before version 3)
+ *   ascii     force kernel id
+ *   uint8     kernel parameter count (k)
+ *   float32   kernel parameters, in the kernel's declared order
+ *   float32   species properties, n x SHARE_SPECIES_KEYS (missing before
+ *             version 4)
+ */
+
+export const SHARE_CODE_VERSION = 4;
+
+// Name of the URL hash parameter carrying the share code
+export const SHARE_HASH_KEY = "rules";
+
+// Fixed order so codes stay valid when parameters are added
+const SHARE_PHYSICS_KEYS: (keyof PhysicsParameters)[] = [
+  "forceScale",
+  "maxSpeed",
+  "damping",
+  "sensingRadius",
+  "betaDistance",
+];
+
+const SHARE_SPECIES_KEYS: (keyof SpeciesProperties)[] = [
+  "mass",
+  "size",
+  "speedScale",
+  "frictionScale",
+];
+
+const MATRIX_SCALE = 1000;
+const HEADER_BYTES = 1 + 4 + 1 + SHARE_PHYSICS_KEYS.length * 4;
+
+/**
+ * A shareable rule set
+ */
+export interface ShareConfig {
+  seed: number;
+  colorCount: number;
+  palette: Float32Array; // RGB per color, 0-1
+  colorMatrix: number[][];
+  radiusMatrix: number[][];
+  repulsionMatrix: number[][];
+  physics: PhysicsParameters;
+  forceKernel: string;
+  kernelParameters: ForceKernelParameters;
+  species: SpeciesProperties[];
+}
+
+export function encodeShareCode(config: ShareConfig): string {
+  const n = config.colorCount;
+  const kernel = getForceKernel(config.forceKernel);
+  const buffer = new ArrayBuffer(
+    HEADER_BYTES +
+      n * 3 +
+      n * n * 2 * 3 +
+      2 +
+      kernel.id.length +
+      kernel.parameters.length * 4 +
+      n * SHARE_SPECIES_KEYS.length * 4,
+  );
+  const view = new DataView(buffer);
+  let offset = 0;
+
+  view.setUint8(offset, SHARE_CODE_VERSION);
+  offset += 1;
+  view.setUint32(offset, config.seed >>> 0, true);
+  offset += 4;
+  view.setUint8(offset, n);
+  offset += 1;
+
+  for (const key of SHARE_PHYSICS_KEYS) {
+    view.setFloat32(offset, config.physics[key], true);
+    offset += 4;
+  }
+
+  for (let k = 0; k < n * 3; k++) {
+    const channel = config.palette[k] ?? 0;
+    view.setUint8(offset, Math.round(Math.max(0, Math.min(1, channel)) * 255));
+    offset += 1;
+  }
+
+  offset = writeMatrix(view, offset, config.colorMatrix, n, 0);
+  offset = writeMatrix(view, offset, config.radiusMatrix, n, 1);
+  offset = writeMatrix(view, offset, config.repulsionMatrix, n, 1);
+
+  view.setUint8(offset, kernel.id.length);
+  offset += 1;
+  for (let k = 0; k < kernel.id.length; k++) {
+    view.setUint8(offset, kernel.id.charCodeAt(k) & 0x7f);
+    offset += 1;
+  }
+  view.setUint8(offset, kernel.parameters.length);
+  offset += 1;
+  for (const parameter of kernel.parameters) {
+    const value =
+      config.kernelParameters[parameter.key] ?? parameter.defaultValue;
+    view.setFloat32(offset, value, true);
+    offset += 4;
+  }
+
+  for (let c = 0; c < n; c++) {
+    const species = config.species[c] ?? DEFAULT_SPECIES_PROPERTIES;
+    for (const key of SHARE_SPECIES_KEYS) {
+      view.setFloat32(offset, species[key], true);
+      offset += 4;
+    }
+  }
+
+  return toBase64Url(new Uint8Array(buffer));
+}
+
+/**
+ * Parse a share code. Throws if the code is malformed.
+ */
+export function decodeShareCode(code: string): ShareConfig {
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(code.trim());
+  } catch {
+    throw new Error("Share code is not valid base64");
+  }
+
+  if (bytes.length < HEADER_BYTES) {
+    throw new Error("Share code is too short");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const version = view.getUint8(offset);
+  offset += 1;
+  if (version < 1 || version > SHARE_CODE_VERSION) {
+    throw new Error(`Unsupported share code version ${version}`);
+  }
+
+  const seed = view.getUint32(offset, true);
+  offset += 4;
+  const n = view.getUint8(offset);
+  offset += 1;
+  if (n < MIN_COLOR_COUNT || n > MAX_COLOR_COUNT) {
+    throw new Error(
+      `Share code color count must be between ${MIN_COLOR_COUNT} and ${MAX_COLOR_COUNT}`,
+    );
+  }
+
+  // Versions 1 and 2 end after the matrices, later ones have a kernel section
+  const matrixCount = version === 1 ? 1 : 3;
+  const matricesEnd = HEADER_BYTES + n * 3 + n * n * 2 * matrixCount;
+  if (
+    version < 3 ? bytes.length !== matricesEnd : bytes.length < matricesEnd + 2
+  ) {
+    throw new Error("Share code length doesn't match its color count");
+  }
+
+  const physics: Partial<PhysicsParameters> = {};
+  for (const key of SHARE_PHYSICS_KEYS) {
+    physics[key] = view.getFloat32(offset, true);
+    offset += 4;
+  }
+
+  const palette = new Float32Array(n * 3);
+  for (let k = 0; k < n * 3; k++) {
+    palette[k] = view.getUint8(offset) / 255;
+    offset += 1;
+  }
+
+  const colorMatrix = readMatrix(view, offset, n, clampAttraction);
+  offset += n * n * 2;
+
+  // Version 1 codes predate per-pair radii, every pair uses the defaults
+  const ones = () => Array.from({ length: n }, () => new Array(n).fill(1));
+  const radiusMatrix =
+    version === 1
+      ? ones()
+      : readMatrix(view, offset, n, (value) => clampPairScale("radius", value));
+  offset += n * n * 2;
+  const repulsionMatrix =
+    version === 1
+      ? ones()
+      : readMatrix(view, offset, n, (value) =>
+          clampPairScale("repulsion", value),
+        );
+  offset += n * n * 2;
+
+  let forceKernel = DEFAULT_FORCE_KERNEL_ID;
+  let kernelParameters: ForceKernelParameters = {};
+
+  if (version >= 3) {
+    const idLength = view.getUint8(offset);
+    offset += 1;
+    if (offset + idLength + 1 > bytes.length) {
+      throw new Error("Share code kernel section is truncated");
+    }
+    forceKernel = String.fromCharCode(
+      ...bytes.subarray(offset, offset + idLength),
+    );
+    offset += idLength;
+
+    const parameterCount = view.getUint8(offset);
+    offset += 1;
+    const speciesBytes = version >= 4 ? n * SHARE_SPECIES_KEYS.length * 4 : 0;
+    if (offset + parameterCount * 4 + speciesBytes !== bytes.length) {
+      throw new Error("Share code kernel section is truncated");
+    }
+
+    // Values are stored in the kernel's declared order
+    const kernel = getForceKernel(forceKernel);
+    const values: ForceKernelParameters = {};
+    for (let k = 0; k < parameterCount; k++) {
+      const key = kernel.parameters[k]?.key;
+      if (key) values[key] = view.getFloat32(offset, true);
+      offset += 4;
+    }
+    forceKernel = kernel.id;
+    kernelParameters = validateKernelParameters(kernel, {}, values);
+  }
+
+  const species: SpeciesProperties[] = [];
+  if (version >= 4) {
+    for (let c = 0; c < n; c++) {
+      const properties: Partial<SpeciesProperties> = {};
+      for (const key of SHARE_SPECIES_KEYS) {
+        properties[key] = view.getFloat32(offset, true);
+        offset += 4;
+      }
+      species.push({ ...DEFAULT_SPECIES_PROPERTIES, ...properties });
+    }
+  }
+
+  return {
+    seed,
+    colorCount: n,
+    palette,
+    colorMatrix,
+    radiusMatrix,
+    repulsionMatrix,
+    physics: validatePhysicsParameters(DEFAULT_PHYSICS_PARAMETERS, physics),
+    forceKernel,
+    kernelParameters,
+    species: resizeSpeciesList(species, n),
+  };
+}
+
+/**
+ * Extract the share code from a URL hash like "#rules=...", if any
+ */
+export function readShareCodeFromHash(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  return params.get(SHARE_HASH_KEY);
+}
+
+export function formatShareHash(code: string): string {
+  return `#${SHARE_HASH_KEY}=${code}`;
+}
+
+function writeMatrix(
+  view: DataView,
+  offset: number,
+  matrix: number[][],
+  n: number,
+  fallback: number,
+): number {
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      const value = Math.round((matrix[i]?.[j] ?? fallback) * MATRIX_SCALE);
+      view.setInt16(offset, Math.max(-32768, Math.min(32767, value)), true);
+      offset += 2;
+    }
+  }
+  return offset;
+}
+
+function readMatrix(
+  view: DataView,
+  offset: number,
+  n: number,
+  clamp: (value: number) => number,
+): number[][] {
+  const matrix: number[][] = [];
+  for (let i = 0; i < n; i++) {
+    matrix[i] = [];
+    for (let j = 0; j < n; j++) {
+      matrix[i][j] = clamp(view.getInt16(offset, true) / MATRIX_SCALE);
+      offset += 2;
+    }
+  }
+  return matrix;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,135 @@
+// Allowed range of the simulation speed multiplier
+export const MIN_TIME_SCALE = 0.1;
+export const MAX_TIME_SCALE = 8;
+
+// Allowed range of the physics updates per fixed step
+export const MIN_SUBSTEPS = 1;
+export const MAX_SUBSTEPS = 8;
+
+export interface SimulationClockConfig {
+  fixedTimeStep?: number; // Seconds of simulated time per fixed step
+  substeps?: number; // Physics updates per fixed step
+  maxStepsPerFrame?: number; // Cap to avoid the "spiral of death"
+  timeScale?: number; // Simulated seconds per real second
+  paused?: boolean;
+}
+
+/**
+ * Accumulator based fixed-timestep scheduler.
+ *
+ * Real frame time is accumulated and consumed in fixed steps, so the
+ * simulation behaves the same at any frame rate. The leftover fraction of a
+ * step is exposed as an interpolation factor for rendering. The clock can be
+ * paused, single-stepped and sped up or slowed down.
+ */
+export class SimulationClock {
+  private fixedTimeStep: number;
+  private substeps: number;
+  private maxStepsPerFrame: number;
+  private accumulator: number = 0;
+  private timeScale: number;
+  private paused: boolean;
+  private pendingSteps: number = 0;
+
+  constructor(config: SimulationClockConfig = {}) {
+    this.fixedTimeStep = config.fixedTimeStep || 1 / 60;
+    this.substeps = Math.max(1, Math.floor(config.substeps || 1));
+    this.maxStepsPerFrame = config.maxStepsPerFrame || 5;
+    this.timeScale = clampTimeScale(config.timeScale || 1);
+    this.paused = config.paused || false;
+  }
+
+  /**
+   * Add elapsed real time (seconds) and return how many fixed steps to run
+   */
+  public advance(frameTime: number): number {
+    // Explicitly requested steps always run, even while paused
+    const requested = this.pendingSteps;
+    this.pendingSteps = 0;
+
+    if (this.paused) return requested;
+
+    this.accumulator += Math.max(0, frameTime) * this.timeScale;
+
+    // Faster playback legitimately needs more steps per frame
+    const maxSteps = Math.ceil(this.maxStepsPerFrame * this.timeScale);
+
+    let steps = Math.floor(this.accumulator / this.fixedTimeStep);
+    if (steps > maxSteps) {
+      // Too far behind: drop the backlog instead of trying to catch up
+      steps = maxSteps;
+      this.accumulator = 0;
+    } else {
+      this.accumulator -= steps * this.fixedTimeStep;
+    }
+
+    return steps + requested;
+  }
+
+  /**
+   * How far (0-1) real time is between the last two fixed steps.
+   * A paused clock always shows the latest step.
+   */
+  public getAlpha(): number {
+    if (this.paused) return 1;
+    return Math.min(1, this.accumulator / this.fixedTimeStep);
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  public setPaused(paused: boolean): void {
+    this.paused = paused;
+  }
+
+  /**
+   * Queue fixed steps to run on the next frame (works while paused)
+   */
+  public stepFrames(count: number): void {
+    this.pendingSteps += Math.max(0, Math.floor(count));
+  }
+
+  public getTimeScale(): number {
+    return this.timeScale;
+  }
+
+  public setTimeScale(timeScale: number): void {
+    this.timeScale = clampTimeScale(timeScale);
+  }
+
+  /**
+   * Duration of a single physics update (fixed step divided by substeps)
+   */
+  public getStepSize(): number {
+    return this.fixedTimeStep / this.substeps;
+  }
+
+  public getSubsteps(): number {
+    return this.substeps;
+  }
+
+  public setSubsteps(substeps: number): void {
+    this.substeps = Math.max(1, Math.floor(substeps));
+  }
+
+  public getFixedTimeStep(): number {
+    return this.fixedTimeStep;
+  }
+
+  public setFixedTimeStep(timeStep: number): void {
+    if (timeStep > 0) {
+      this.fixedTimeStep = timeStep;
+    }
+  }
+
+  public reset(): void {
+    this.accumulator = 0;
+    this.pendingSteps = 0;
+  }
+}
+
+export function clampTimeScale(timeScale: number): number {
+  if (!Number.isFinite(timeScale)) return 1;
+  return Math.max(MIN_TIME_SCALE, Math.min(MAX_TIME_SCALE, timeScale));
+}
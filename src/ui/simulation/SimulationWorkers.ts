@@ -0,0 +1,271 @@
+import { ParticleSystem, interpolatePositions } from "./ParticleSystem";
+import {
+  Barrier,
+  type WorkerRequest,
+  type WorkerResponse,
+} from "./WorkerProtocol";
+
+// Most fixed steps a single batch may contain; older backlog is dropped
+const MAX_BATCH_STEPS = 8;
+
+// Upper limit for the worker thread setting
+const MAX_WORKERS = 16;
+
+/**
+ * Runs a ParticleSystem's physics on a pool of Web Workers.
+ *
+ * The particle arrays live in SharedArrayBuffers. Each worker integrates one
+ * slice of the particles, while the main thread only hands out batches of
+ * fixed steps and renders. Positions are copied out after every batch, so
+ * rendering never sees a half-finished step, and the main thread's spatial
+ * grid (used for view culling) is rebuilt while the workers are idle.
+ * Changes to the system (rules, parameters, counts) are queued while a batch
+ * is running and forwarded to the workers as messages.
+ */
+export class SimulationWorkers {
+  private particleSystem: ParticleSystem;
+  private workers: Worker[] = [];
+  private busy: boolean = false;
+  private pendingSteps: number = 0;
+  private stepSize: number = 1 / 60;
+  private substeps: number = 1;
+  private sentRevision: number = -1;
+  private queuedChanges: ((particleSystem: ParticleSystem) => void)[] = [];
+  private onError?: (error: Error) => void;
+
+  // Positions after the last two batches, owned by the main thread
+  private previousPositions: Float32Array = new Float32Array(0);
+  private currentPositions: Float32Array = new Float32Array(0);
+  private interpolatedPositions: Float32Array = new Float32Array(0);
+
+  /**
+   * Whether this environment can share memory with workers
+   * (requires cross-origin isolation in browsers)
+   */
+  public static isSupported(): boolean {
+    return (
+      typeof Worker !== "undefined" && typeof SharedArrayBuffer !== "undefined"
+    );
+  }
+
+  /**
+   * Most useful worker count on this machine, 0 when workers are unsupported
+   */
+  public static getMaxWorkerCount(): number {
+    if (!SimulationWorkers.isSupported()) return 0;
+    return Math.min(MAX_WORKERS, navigator.hardwareConcurrency || 4);
+  }
+
+  /**
+   * Default worker count: leave one core for rendering and the UI
+   */
+  public static getDefaultWorkerCount(): number {
+    const max = SimulationWorkers.getMaxWorkerCount();
+    return max === 0 ? 0 : Math.max(1, Math.min(4, max - 1));
+  }
+
+  constructor(
+    particleSystem: ParticleSystem,
+    workerCount: number,
+    onError?: (error: Error) => void,
+  ) {
+    this.particleSystem = particleSystem;
+    this.onError = onError;
+
+    const count = Math.max(1, Math.floor(workerCount));
+    const barrier = Barrier.createBuffer();
+
+    for (let index = 0; index < count; index++) {
+      const worker = new Worker(
+        new URL("./simulation.worker.ts", import.meta.url),
+        { type: "module" },
+      );
+      worker.addEventListener("message", this.handleMessage);
+      worker.addEventListener("error", this.handleError);
+      this.post(worker, { type: "init", index, workerCount: count, barrier });
+      this.workers.push(worker);
+    }
+
+    this.takeSnapshot();
+    this.previousPositions = this.currentPositions.slice();
+    this.particleSystem.refreshGrid();
+  }
+
+  /**
+   * Change the particle system. Runs right away when the workers are idle,
+   * otherwise after the running batch has finished.
+   */
+  public update(change: (particleSystem: ParticleSystem) => void): void {
+    if (this.busy) {
+      this.queuedChanges.push(change);
+      return;
+    }
+
+    change(this.particleSystem);
+    this.refreshSnapshot();
+    this.particleSystem.refreshGrid();
+  }
+
+  /**
+   * Schedule fixed steps; they run as soon as the workers are free
+   */
+  public advance(steps: number, stepSize: number, substeps: number): void {
+    this.pendingSteps = Math.min(this.pendingSteps + steps, MAX_BATCH_STEPS);
+    this.stepSize = stepSize;
+    this.substeps = substeps;
+
+    if (!this.busy) {
+      this.dispatch();
+    }
+  }
+
+  /**
+   * Positions blended between the last two finished batches
+   */
+  public getInterpolatedPositions(alpha: number): Float32Array {
+    if (alpha >= 1) return this.currentPositions;
+
+    if (this.interpolatedPositions.length !== this.currentPositions.length) {
+      this.interpolatedPositions = new Float32Array(
+        this.currentPositions.length,
+      );
+    }
+
+    return interpolatePositions(
+      this.previousPositions,
+      this.currentPositions,
+      alpha,
+      this.particleSystem.getWorldBounds(),
+      this.interpolatedPositions,
+    );
+  }
+
+  /**
+   * Number of particles in the rendered positions
+   */
+  public getParticleCount(): number {
+    return this.currentPositions.length / 2;
+  }
+
+  public dispose(): void {
+    for (const worker of this.workers) {
+      worker.removeEventListener("message", this.handleMessage);
+      worker.removeEventListener("error", this.handleError);
+      worker.terminate();
+    }
+    this.workers = [];
+    this.busy = false;
+
+    // Nothing is running anymore, so queued changes can be applied directly
+    this.applyQueuedChanges();
+    this.particleSystem.markMoved();
+  }
+
+  private dispatch(): void {
+    if (this.pendingSteps === 0 || this.workers.length === 0) return;
+
+    // Forward rule and parameter changes before the next batch
+    const revision = this.particleSystem.getRevision();
+    if (revision !== this.sentRevision) {
+      const state = this.particleSystem.getSharedState();
+      for (const worker of this.workers) {
+        this.post(worker, { type: "state", state });
+      }
+      this.sentRevision = revision;
+    }
+
+    for (const worker of this.workers) {
+      this.post(worker, {
+        type: "step",
+        steps: this.pendingSteps,
+        stepSize: this.stepSize,
+        substeps: this.substeps,
+      });
+    }
+
+    this.pendingSteps = 0;
+    this.busy = true;
+  }
+
+  private handleMessage = (event: MessageEvent<WorkerResponse>) => {
+    const response = event.data;
+
+    switch (response.type) {
+      case "done":
+        this.busy = false;
+        this.particleSystem.markMoved();
+        this.takeSnapshot();
+
+        if (this.queuedChanges.length > 0) {
+          this.applyQueuedChanges();
+          this.refreshSnapshot();
+        }
+        this.particleSystem.refreshGrid();
+
+        this.dispatch();
+        break;
+      case "error":
+        this.fail(new Error(response.message));
+        break;
+    }
+  };
+
+  private handleError = (event: ErrorEvent) => {
+    this.fail(new Error(event.message || "Physics worker failed to start"));
+  };
+
+  private fail(error: Error): void {
+    this.dispose();
+    this.onError?.(error);
+  }
+
+  private applyQueuedChanges(): void {
+    const changes = this.queuedChanges;
+    this.queuedChanges = [];
+    for (const change of changes) {
+      change(this.particleSystem);
+    }
+  }
+
+  /**
+   * Copy the finished positions out of shared memory
+   */
+  private takeSnapshot(): void {
+    const positions = this.particleSystem.positions;
+
+    // Swap instead of allocating when the count is unchanged
+    const recycled = this.previousPositions;
+    this.previousPositions = this.currentPositions;
+    this.currentPositions =
+      recycled.length === positions.length
+        ? recycled
+        : new Float32Array(positions.length);
+    this.currentPositions.set(positions);
+
+    if (this.previousPositions.length !== positions.length) {
+      this.previousPositions = this.currentPositions.slice();
+    }
+  }
+
+  /**
+   * Replace both snapshots if the main thread moved, added or removed
+   * particles (parameter changes leave the positions alone)
+   */
+  private refreshSnapshot(): void {
+    const positions = this.particleSystem.positions;
+    const current = this.currentPositions;
+
+    let changed = positions.length !== current.length;
+    for (let k = 0; !changed && k < positions.length; k++) {
+      changed = positions[k] !== current[k];
+    }
+    if (!changed) return;
+
+    this.currentPositions = positions.slice();
+    this.previousPositions = positions.slice();
+  }
+
+  private post(worker: Worker, message: WorkerRequest): void {
+    worker.postMessage(message);
+  }
+}
@@ -0,0 +1,400 @@
+import {
+  BOUNDARY_MODES,
+  INTEGRATORS,
+  MAX_COLOR_COUNT,
+  MAX_PARTICLE_COUNT,
+  MIN_COLOR_COUNT,
+  type BoundaryMode,
+  type Integrator,
+  type ParticleSystemState,
+} from "./ParticleSystem";
+import {
+  DEFAULT_FORCE_KERNEL_ID,
+  type ForceKernelParameters,
+} from "./ForceKernels";
+import {
+  clampAttraction,
+  clampPairScale,
+  type PhysicsParameters,
+  type SpeciesProperties,
+} from "./PhysicsParameters";
+import { MAX_SUBSTEPS, MIN_SUBSTEPS } from "./SimulationClock";
+import type { CameraView } from "./Camera";
+
+/**
+ * Snapshot file layout (all integers little-endian):
+ *
+ *   "PLSN"              4 byte magic
+ *   header length       uint32
+ *   header              UTF-8 JSON (SnapshotHeader), padded to 4 bytes
+ *   payload             typed arrays, each at the offset listed in the header
+ *
+ * Scalars, rules and palette live in the JSON header so they stay readable;
+ * the per-particle arrays are stored raw. Float arrays use the platform byte
+ * order, which is little-endian everywhere the app runs.
+ */
+
+// Version 2 added the per-pair radius and repulsion matrices,
+// version 3 the force kernel, version 4 the species properties, version 5
+// the camera bookmarks
+export const SNAPSHOT_VERSION = 5;
+export const SNAPSHOT_FILE_EXTENSION = "plsnap";
+
+const MAGIC = [0x50, 0x4c, 0x53, 0x4e]; // "PLSN"
+const PREAMBLE_BYTES = 8;
+
+/**
+ * Everything needed to restore a world exactly as it was saved
+ */
+export interface WorldSnapshot {
+  particles: ParticleSystemState;
+  substeps: number;
+  camera: CameraView;
+  bookmarks: (CameraView | null)[]; // Indexed by slot; null where unset
+}
+
+interface ArrayLocation {
+  offset: number; // Bytes from the start of the payload
+  length: number; // Elements
+}
+
+interface SnapshotHeader {
+  version: number;
+  createdAt: string;
+  seed: number;
+  particleCount: number;
+  colorCount: number;
+  worldSize: { width: number; height: number };
+  physics: PhysicsParameters;
+  boundaryMode: BoundaryMode;
+  integrator: Integrator;
+  forceKernel?: string; // Missing before version 3
+  kernelParameters?: ForceKernelParameters; // Missing before version 3
+  substeps: number;
+  colorMatrix: number[];
+  radiusMatrix?: number[]; // Missing before version 2
+  repulsionMatrix?: number[]; // Missing before version 2
+  species?: SpeciesProperties[]; // Missing before version 4
+  palette: number[];
+  camera: CameraView;
+  bookmarks?: (CameraView | null)[]; // Missing before version 5
+  arrays: {
+    positions: ArrayLocation;
+    velocities: ArrayLocation;
+    colorIndices: ArrayLocation;
+  };
+}
+
+/**
+ * Serialize a snapshot into the binary file format
+ */
+export function encodeSnapshot(snapshot: WorldSnapshot): ArrayBuffer {
+  const { particles } = snapshot;
+
+  // Float arrays first so every array stays naturally aligned
+  const positionsBytes = particles.positions.byteLength;
+  const velocitiesBytes = particles.velocities.byteLength;
+
+  const header: SnapshotHeader = {
+    version: SNAPSHOT_VERSION,
+    createdAt: new Date().toISOString(),
+    seed: particles.seed,
+    particleCount: particles.particleCount,
+    colorCount: particles.colorCount,
+    worldSize: particles.worldSize,
+    physics: particles.physics,
+    boundaryMode: particles.boundaryMode,
+    integrator: particles.integrator,
+    forceKernel: particles.forceKernel,
+    kernelParameters: particles.kernelParameters,
+    substeps: snapshot.substeps,
+    colorMatrix: Array.from(particles.colorMatrix),
+    radiusMatrix: Array.from(particles.radiusMatrix),
+    repulsionMatrix: Array.from(particles.repulsionMatrix),
+    species: particles.species,
+    palette: Array.from(particles.palette),
+    camera: snapshot.camera,
+    bookmarks: snapshot.bookmarks,
+    arrays: {
+      positions: { offset: 0, length: particles.positions.length },
+      velocities: {
+        offset: positionsBytes,
+        length: particles.velocities.length,
+      },
+      colorIndices: {
+        offset: positionsBytes + velocitiesBytes,
+        length: particles.colorIndices.length,
+      },
+    },
+  };
+
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const payloadStart = align4(PREAMBLE_BYTES + headerBytes.length);
+  const payloadBytes =
+    positionsBytes + velocitiesBytes + particles.colorIndices.byteLength;
+
+  const buffer = new ArrayBuffer(payloadStart + payloadBytes);
+  const bytes = new Uint8Array(buffer);
+  bytes.set(MAGIC, 0);
+  new DataView(buffer).setUint32(4, headerBytes.length, true);
+  bytes.set(headerBytes, PREAMBLE_BYTES);
+
+  const { arrays } = header;
+  writeArray(
+    bytes,
+    payloadStart + arrays.positions.offset,
+    particles.positions,
+  );
+  writeArray(
+    bytes,
+    payloadStart + arrays.velocities.offset,
+    particles.velocities,
+  );
+  writeArray(
+    bytes,
+    payloadStart + arrays.colorIndices.offset,
+    particles.colorIndices,
+  );
+
+  return buffer;
+}
+
+/**
+ * Parse a snapshot file. Throws if the data is not a valid snapshot.
+ */
+export function decodeSnapshot(buffer: ArrayBuffer): WorldSnapshot {
+  const bytes = new Uint8Array(buffer);
+  if (
+    bytes.length < PREAMBLE_BYTES ||
+    MAGIC.some((value, index) => bytes[index] !== value)
+  ) {
+    throw new Error("Not a Particle Life snapshot");
+  }
+
+  const headerLength = new DataView(buffer).getUint32(4, true);
+  if (PREAMBLE_BYTES + headerLength > bytes.length) {
+    throw new Error("Snapshot header is truncated");
+  }
+
+  const header = JSON.parse(
+    new TextDecoder().decode(
+      bytes.subarray(PREAMBLE_BYTES, PREAMBLE_BYTES + headerLength),
+    ),
+  ) as SnapshotHeader;
+
+  validateHeader(header);
+
+  const count = header.particleCount;
+  const payloadStart = align4(PREAMBLE_BYTES + headerLength);
+  const { arrays } = header;
+
+  const positions = readArray(
+    buffer,
+    payloadStart,
+    arrays.positions,
+    Float32Array,
+  );
+  const velocities = readArray(
+    buffer,
+    payloadStart,
+    arrays.velocities,
+    Float32Array,
+  );
+  const colorIndices = readArray(
+    buffer,
+    payloadStart,
+    arrays.colorIndices,
+    Uint8Array,
+  );
+
+  if (
+    positions.length !== count * 2 ||
+    velocities.length !== count * 2 ||
+    colorIndices.length !== count
+  ) {
+    throw new Error("Snapshot arrays don't match the particle count");
+  }
+
+  return {
+    particles: {
+      seed: header.seed,
+      particleCount: count,
+      colorCount: header.colorCount,
+      worldSize: header.worldSize,
+      physics: header.physics,
+      boundaryMode: header.boundaryMode,
+      integrator: header.integrator,
+      forceKernel: header.forceKernel ?? DEFAULT_FORCE_KERNEL_ID,
+      kernelParameters: header.kernelParameters ?? {},
+      colorMatrix: new Float32Array(header.colorMatrix.map(clampAttraction)),
+      radiusMatrix: readPairMatrix(
+        header.radiusMatrix,
+        header.colorCount,
+        "radius",
+      ),
+      repulsionMatrix: readPairMatrix(
+        header.repulsionMatrix,
+        header.colorCount,
+        "repulsion",
+      ),
+      // Older snapshots: the particle system fills in default species
+      species: header.species ?? [],
+      palette: new Float32Array(header.palette),
+      positions,
+      velocities,
+      colorIndices,
+    },
+    substeps: header.substeps,
+    camera: header.camera,
+    bookmarks: readBookmarks(header.bookmarks),
+  };
+}
+
+/**
+ * Check the header fields the simulation can't recover from. Throws a
+ * descriptive error for the first invalid one.
+ */
+function validateHeader(header: SnapshotHeader): void {
+  if (!Number.isInteger(header.version) || header.version < 1) {
+    throw new Error("Snapshot has no valid version");
+  }
+  if (header.version > SNAPSHOT_VERSION) {
+    throw new Error(
+      `Snapshot version ${header.version} is newer than supported (${SNAPSHOT_VERSION})`,
+    );
+  }
+
+  const count = header.particleCount;
+  if (!Number.isInteger(count) || count < 0 || count > MAX_PARTICLE_COUNT) {
+    throw new Error(
+      `Snapshot particle count must be between 0 and ${MAX_PARTICLE_COUNT}`,
+    );
+  }
+
+  const colorCount = header.colorCount;
+  if (
+    !Number.isInteger(colorCount) ||
+    colorCount < MIN_COLOR_COUNT ||
+    colorCount > MAX_COLOR_COUNT
+  ) {
+    throw new Error(
+      `Snapshot color count must be between ${MIN_COLOR_COUNT} and ${MAX_COLOR_COUNT}`,
+    );
+  }
+
+  const { width, height } = header.worldSize ?? {};
+  if (!isPositiveNumber(width) || !isPositiveNumber(height)) {
+    throw new Error("Snapshot world size is missing or invalid");
+  }
+
+  if (!BOUNDARY_MODES.includes(header.boundaryMode)) {
+    throw new Error(`Unknown boundary mode "${header.boundaryMode}"`);
+  }
+  if (!INTEGRATORS.includes(header.integrator)) {
+    throw new Error(`Unknown integrator "${header.integrator}"`);
+  }
+
+  if (typeof header.physics !== "object" || header.physics === null) {
+    throw new Error("Snapshot has no physics parameters");
+  }
+  if (
+    !Array.isArray(header.colorMatrix) ||
+    header.colorMatrix.length !== colorCount * colorCount
+  ) {
+    throw new Error(
+      "Snapshot interaction matrix doesn't match its color count",
+    );
+  }
+
+  const substeps = header.substeps;
+  if (
+    !Number.isInteger(substeps) ||
+    substeps < MIN_SUBSTEPS ||
+    substeps > MAX_SUBSTEPS
+  ) {
+    throw new Error(
+      `Snapshot substeps must be between ${MIN_SUBSTEPS} and ${MAX_SUBSTEPS}`,
+    );
+  }
+  if (!isCameraView(header.camera)) {
+    throw new Error("Snapshot camera is missing or invalid");
+  }
+
+  if (!header.arrays) {
+    throw new Error("Snapshot has no particle arrays");
+  }
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function isCameraView(value: unknown): value is CameraView {
+  if (typeof value !== "object" || value === null) return false;
+  const { x, y, zoom } = value as Partial<CameraView>;
+  return Number.isFinite(x) && Number.isFinite(y) && isPositiveNumber(zoom);
+}
+
+/**
+ * Bookmarks from the header, with malformed slots left empty
+ */
+function readBookmarks(
+  bookmarks: (CameraView | null)[] | undefined,
+): (CameraView | null)[] {
+  if (!Array.isArray(bookmarks)) return [];
+  return bookmarks.map((view) => (isCameraView(view) ? view : null));
+}
+
+/**
+ * Suggested file name for a new snapshot
+ */
+export function getSnapshotFileName(date: Date = new Date()): string {
+  const stamp = date.toISOString().slice(0, 19).replace(/[:T]/g, "-");
+  return `particle-life-${stamp}.${SNAPSHOT_FILE_EXTENSION}`;
+}
+
+/**
+ * Per-pair scale matrix from the header, clamped to its range. All ones for
+ * older snapshots or a matrix of the wrong size.
+ */
+function readPairMatrix(
+  values: number[] | undefined,
+  colorCount: number,
+  kind: "radius" | "repulsion",
+): Float32Array {
+  if (!Array.isArray(values) || values.length !== colorCount * colorCount) {
+    return new Float32Array(colorCount * colorCount).fill(1);
+  }
+  return new Float32Array(values.map((value) => clampPairScale(kind, value)));
+}
+
+function align4(value: number): number {
+  return (value + 3) & ~3;
+}
+
+function writeArray(
+  bytes: Uint8Array,
+  offset: number,
+  array: Float32Array | Uint8Array,
+): void {
+  bytes.set(
+    new Uint8Array(array.buffer, array.byteOffset, array.byteLength),
+    offset,
+  );
+}
+
+function readArray<T extends Float32Array | Uint8Array>(
+  buffer: ArrayBuffer,
+  payloadStart: number,
+  location: ArrayLocation,
+  type: { new (buffer: ArrayBuffer): T; readonly BYTES_PER_ELEMENT: number },
+): T {
+  const start = payloadStart + location.offset;
+  const end = start + location.length * type.BYTES_PER_ELEMENT;
+  if (start < payloadStart || end > buffer.byteLength) {
+    throw new Error("Snapshot payload is truncated");
+  }
+
+  // Copy, so the result is aligned and independent of the file buffer
+  return new type(buffer.slice(start, end));
+}
@@ -0,0 +1,236 @@
+export interface GridBounds {
+  minX: number;
+  minY: number;
+  width: number;
+  height: number;
+}
+
+// Upper bound on cells per axis so tiny radii can't blow up memory
+const MAX_CELLS_PER_AXIS = 1024;
+
+/**
+ * Uniform grid (cell list) used for neighbor queries.
+ *
+ * Particles are bucketed with a counting sort: `cellStart[c]` to
+ * `cellStart[c + 1]` indexes into `cellParticles` for every particle in cell c.
+ * Cells are never smaller than the requested cell size, so all neighbors
+ * within that distance live in the 3x3 block of cells around a particle.
+ */
+export class SpatialGrid {
+  public cols: number = 1;
+  public rows: number = 1;
+  public cellWidth: number = 1;
+  public cellHeight: number = 1;
+  public minX: number = 0;
+  public minY: number = 0;
+
+  public cellStart: Int32Array = new Int32Array(2);
+  public cellParticles: Int32Array = new Int32Array(0);
+
+  private particleCells: Int32Array = new Int32Array(0);
+  private cellCursor: Int32Array = new Int32Array(1);
+
+  /**
+   * Rebuild the grid for the given particle positions
+   */
+  public rebuild(
+    positions: Float32Array,
+    particleCount: number,
+    bounds: GridBounds,
+    cellSize: number,
+  ): void {
+    const size = Math.max(cellSize, 1e-6);
+
+    this.cols = Math.max(
+      1,
+      Math.min(MAX_CELLS_PER_AXIS, Math.floor(bounds.width / size)),
+    );
+    this.rows = Math.max(
+      1,
+      Math.min(MAX_CELLS_PER_AXIS, Math.floor(bounds.height / size)),
+    );
+    this.cellWidth = Math.max(bounds.width, size) / this.cols;
+    this.cellHeight = Math.max(bounds.height, size) / this.rows;
+    this.minX = bounds.minX;
+    this.minY = bounds.minY;
+
+    const cellCount = this.cols * this.rows;
+    if (this.cellStart.length < cellCount + 1) {
+      this.cellStart = new Int32Array(cellCount + 1);
+      this.cellCursor = new Int32Array(cellCount);
+    }
+    if (this.cellParticles.length < particleCount) {
+      this.cellParticles = new Int32Array(particleCount);
+      this.particleCells = new Int32Array(particleCount);
+    }
+
+    const cellStart = this.cellStart;
+    cellStart.fill(0, 0, cellCount + 1);
+
+    // Count particles per cell
+    for (let i = 0; i < particleCount; i++) {
+      const cell = this.getCellIndex(positions[i * 2], positions[i * 2 + 1]);
+      this.particleCells[i] = cell;
+      cellStart[cell + 1]++;
+    }
+
+    // Prefix sum gives the start offset of every cell
+    for (let c = 0; c < cellCount; c++) {
+      cellStart[c + 1] += cellStart[c];
+    }
+
+    // Scatter particle indices into their cells
+    const cursor = this.cellCursor;
+    cursor.set(cellStart.subarray(0, cellCount));
+    for (let i = 0; i < particleCount; i++) {
+      this.cellParticles[cursor[this.particleCells[i]]++] = i;
+    }
+  }
+
+  /**
+   * Column of a world x coordinate, clamped to the grid
+   */
+  public cellX(x: number): number {
+    const cx = Math.floor((x - this.minX) / this.cellWidth);
+    return cx < 0 ? 0 : cx >= this.cols ? this.cols - 1 : cx;
+  }
+
+  /**
+   * Row of a world y coordinate, clamped to the grid
+   */
+  public cellY(y: number): number {
+    const cy = Math.floor((y - this.minY) / this.cellHeight);
+    return cy < 0 ? 0 : cy >= this.rows ? this.rows - 1 : cy;
+  }
+
+  /**
+   * Write the columns adjacent to cx (including cx) into out.
+   * Returns the number of columns written.
+   */
+  public neighborColumns(
+    cx: number,
+    periodic: boolean,
+    out: Int32Array,
+  ): number {
+    return adjacentCells(cx, this.cols, periodic, out);
+  }
+
+  /**
+   * Write the rows adjacent to cy (including cy) into out.
+   * Returns the number of rows written.
+   */
+  public neighborRows(cy: number, periodic: boolean, out: Int32Array): number {
+    return adjacentCells(cy, this.rows, periodic, out);
+  }
+
+  public getCellIndex(x: number, y: number): number {
+    return this.cellY(y) * this.cols + this.cellX(x);
+  }
+
+  /**
+   * Collect every particle whose cell overlaps the given world rectangle.
+   * Callers still need an exact position test.
+   */
+  public queryRegion(
+    left: number,
+    right: number,
+    top: number,
+    bottom: number,
+    out: number[],
+  ): void {
+    const x0 = this.cellX(left);
+    const x1 = this.cellX(right);
+    const y0 = this.cellY(top);
+    const y1 = this.cellY(bottom);
+
+    for (let cy = y0; cy <= y1; cy++) {
+      for (let cx = x0; cx <= x1; cx++) {
+        const cell = cy * this.cols + cx;
+        for (let k = this.cellStart[cell]; k < this.cellStart[cell + 1]; k++) {
+          out.push(this.cellParticles[k]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Like queryRegion, but writes into a preallocated array and returns the
+   * number of particles written. A periodic grid wraps the rectangle around
+   * its edges. Every cell is visited at most once, so `out` never needs room
+   * for more than all particles.
+   */
+  public collectRegion(
+    left: number,
+    right: number,
+    top: number,
+    bottom: number,
+    periodic: boolean,
+    out: Uint32Array,
+  ): number {
+    const [x0, columns] = periodic
+      ? wrappedCells(left, right, this.minX, this.cellWidth, this.cols)
+      : [this.cellX(left), this.cellX(right) - this.cellX(left) + 1];
+    const [y0, rows] = periodic
+      ? wrappedCells(top, bottom, this.minY, this.cellHeight, this.rows)
+      : [this.cellY(top), this.cellY(bottom) - this.cellY(top) + 1];
+
+    let count = 0;
+    for (let r = 0; r < rows; r++) {
+      const cy = (y0 + r) % this.rows;
+      for (let c = 0; c < columns; c++) {
+        const cell = cy * this.cols + ((x0 + c) % this.cols);
+        const end = this.cellStart[cell + 1];
+        for (let k = this.cellStart[cell]; k < end; k++) {
+          out[count++] = this.cellParticles[k];
+        }
+      }
+    }
+    return count;
+  }
+}
+
+/**
+ * First cell and number of cells covering [lo, hi] on a periodic axis with
+ * n cells, capped at n so no cell is listed twice
+ */
+function wrappedCells(
+  lo: number,
+  hi: number,
+  min: number,
+  cellSize: number,
+  n: number,
+): [number, number] {
+  const first = Math.floor((lo - min) / cellSize);
+  const last = Math.floor((hi - min) / cellSize);
+  const start = ((first % n) + n) % n;
+  return [start, Math.min(n, last - first + 1)];
+}
+
+/**
+ * Indices of c and its two neighbors on an axis with n cells. Periodic axes
+ * wrap around, and axes with fewer than 3 cells list every cell once so no
+ * particle is visited twice.
+ */
+function adjacentCells(
+  c: number,
+  n: number,
+  periodic: boolean,
+  out: Int32Array,
+): number {
+  if (periodic) {
+    if (n < 3) {
+      for (let k = 0; k < n; k++) out[k] = k;
+      return n;
+    }
+    out[0] = c === 0 ? n - 1 : c - 1;
+    out[1] = c;
+    out[2] = c === n - 1 ? 0 : c + 1;
+    return 3;
+  }
+
+  let count = 0;
+  for (let k = Math.max(0, c - 1); k <= Math.min(n - 1, c + 1); k++) {
+    out[count++] = k;
+  }
+  return count;
+}
@@ -0,0 +1,78 @@
+import type { ParameterRange } from "./PhysicsParameters";
+
+/**
+ * What the left mouse button does on the canvas
+ * - pan: drag the camera
+ * - attract / repel: pull particles towards or push them away from the cursor
+ * - spawn: add particles of the brush color
+ * - erase: remove particles
+ * - recolor: change particles to the brush color
+ */
+export type ToolMode =
+  "pan" | "attract" | "repel" | "spawn" | "erase" | "recolor";
+
+export type BrushTool = Exclude<ToolMode, "pan">;
+
+export const TOOL_MODES: { value: ToolMode; label: string }[] = [
+  { value: "pan", label: "Pan" },
+  { value: "attract", label: "Attract" },
+  { value: "repel", label: "Repel" },
+  { value: "spawn", label: "Spawn" },
+  { value: "erase", label: "Erase" },
+  { value: "recolor", label: "Recolor" },
+];
+
+/**
+ * Settings shared by all brush tools
+ */
+export interface BrushSettings {
+  radius: number; // In world units
+  strength: number; // Force multiplier, or spawn rate for the spawn brush
+  colorIndex: number; // Species added by spawn and recolor
+}
+
+export const DEFAULT_BRUSH_SETTINGS: BrushSettings = {
+  radius: 80,
+  strength: 1,
+  colorIndex: 0,
+};
+
+export const BRUSH_SETTING_RANGES: Record<
+  "radius" | "strength",
+  ParameterRange
+> = {
+  radius: { min: 10, max: 500, step: 5 },
+  strength: { min: 0.1, max: 5, step: 0.1 },
+};
+
+/**
+ * One application of a brush at a world position
+ */
+export interface BrushStroke extends BrushSettings {
+  tool: BrushTool;
+  x: number;
+  y: number;
+}
+
+/**
+ * Merge a partial update into brush settings, clamping to the ranges
+ */
+export function validateBrushSettings(
+  current: BrushSettings,
+  update: Partial<BrushSettings>,
+): BrushSettings {
+  const result = { ...current };
+
+  for (const key of ["radius", "strength"] as const) {
+    const value = update[key];
+    if (value === undefined || !Number.isFinite(value)) continue;
+    const range = BRUSH_SETTING_RANGES[key];
+    result[key] = Math.max(range.min, Math.min(range.max, value));
+  }
+
+  if (update.colorIndex !== undefined && Number.isFinite(update.colorIndex)) {
+    result.colorIndex = Math.max(0, Math.floor(update.colorIndex));
+  }
+
+  return result;
+}
@@ -0,0 +1,1452 @@
+import {
+  vertexShaderSource,
+  fragmentShaderSource,
+  boundaryVertexShaderSource,
+  boundaryFragmentShaderSource,
+  screenVertexShaderSource,
+  trailFragmentShaderSource,
+  bloomThresholdFragmentShaderSource,
+  blurFragmentShaderSource,
+  compositeFragmentShaderSource,
+  densityFragmentShaderSource,
+  MAX_GRADIENT_STOPS,
+} from "./shaders";
+import type { BoundaryShape } from "./ParticleSystem";
+import { createGradientTable, type GradientStops } from "./ColorModes";
+import {
+  DEFAULT_RENDER_SETTINGS,
+  usesPostProcessing,
+  type RenderSettings,
+} from "./RenderSettings";
+
+// Number of segments used to approximate a circular boundary
+const CIRCLE_SEGMENTS = 128;
+
+// Brush and selection outlines are small on screen, fewer segments suffice
+const MARKER_SEGMENTS = 48;
+
+// Clear color; trails fade towards it
+const BACKGROUND_COLOR: [number, number, number] = [0.05, 0.05, 0.1];
+
+// Bloom is blurred at a fraction of the screen size, which widens the glow
+// and saves fill rate
+const BLOOM_DOWNSAMPLE = 2;
+
+// Horizontal + vertical blur rounds; more give a smoother glow
+const BLOOM_BLUR_ITERATIONS = 2;
+
+// Smallest particle buffer allocation, in particles
+const MIN_PARTICLE_CAPACITY = 1024;
+
+// Particle buffers grow to this multiple of the count that didn't fit, so a
+// growing world doesn't reallocate them every frame
+const PARTICLE_CAPACITY_GROWTH = 1.5;
+
+// Screen pixels per density map cell; the map is smoothed when drawn
+const DENSITY_CELL_SIZE = 4;
+
+// Gradient colors the density map picks from in a color mode
+const GRADIENT_TABLE_SIZE = 256;
+
+/**
+ * Circle drawn on top of the particles, in world coordinates
+ */
+export interface CircleOutline {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+/**
+ * Per-particle values to color the particles by, instead of their species
+ */
+export interface ColorMapping {
+  values: Float32Array;
+  min: number; // Value at the first gradient stop
+  max: number; // Value at the last gradient stop
+  gradient: GradientStops;
+}
+
+/**
+ * Offscreen color buffer for trails and post-processing
+ */
+interface RenderTarget {
+  framebuffer: WebGLFramebuffer;
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+}
+
+/**
+ * CPU side of the zoomed-out density map, one cell per DENSITY_CELL_SIZE
+ * screen pixels
+ */
+interface DensityMap {
+  columns: number;
+  rows: number;
+  areas: Float32Array; // Screen pixels the particles would fill
+  colors: Float32Array; // RGB summed by area
+  texels: Uint8Array; // Premultiplied mean color and coverage, for upload
+}
+
+/**
+ * Full-screen shader pass and its uniform locations, by name without the
+ * "u_" prefix
+ */
+interface ScreenPass<Uniform extends string> {
+  program: WebGLProgram;
+  uniforms: Record<Uniform, WebGLUniformLocation | null>;
+}
+
+type TrailUniform =
+  | "previous"
+  | "resolution"
+  | "cameraPosition"
+  | "cameraZoom"
+  | "previousCameraPosition"
+  | "previousCameraZoom"
+  | "persistence"
+  | "background";
+
+export class WebGLRenderer {
+  private gl: WebGL2RenderingContext;
+  private program: WebGLProgram | null = null;
+  private positionBuffer: WebGLBuffer | null = null;
+  private colorBuffer: WebGLBuffer | null = null;
+  private sizeBuffer: WebGLBuffer | null = null;
+  private valueBuffer: WebGLBuffer | null = null;
+  private indexBuffer: WebGLBuffer | null = null;
+  private particleVertexArray: WebGLVertexArrayObject | null = null;
+
+  // Particles the buffers have storage for; they are allocated once per
+  // growth and then updated in place
+  private particleCapacity: number = 0;
+  // Colors and sizes are only uploaded after markAttributesDirty
+  private attributesDirty: boolean = true;
+
+  // Attribute locations
+  private positionLoc: number = -1;
+  private colorLoc: number = -1;
+  private sizeLoc: number = -1;
+  private valueLoc: number = -1;
+
+  // Uniform locations
+  private resolutionLoc: WebGLUniformLocation | null = null;
+  private pointSizeLoc: WebGLUniformLocation | null = null;
+  private cameraPositionLoc: WebGLUniformLocation | null = null;
+  private cameraZoomLoc: WebGLUniformLocation | null = null;
+  private useGradientLoc: WebGLUniformLocation | null = null;
+  private gradientLoc: WebGLUniformLocation | null = null;
+  private gradientStopsLoc: WebGLUniformLocation | null = null;
+  private valueRangeLoc: WebGLUniformLocation | null = null;
+
+  // Color mode values, uploaded with setColorMapping; 0 draws species colors
+  private colorValueCount: number = 0;
+  // The mapping itself, to color the density map the same way
+  private colorMapping: ColorMapping | null = null;
+  private gradientTable: { stops: GradientStops; table: Float32Array } | null =
+    null;
+
+  // Particles to draw, from setVisibleParticles; null draws them all
+  private visibleParticles: Uint32Array | null = null;
+  private visibleCount: number = 0;
+
+  // Level of detail: zoomed far out, the particles are binned into a
+  // density map on the CPU and drawn in one full-screen pass
+  private densityLod: boolean = false;
+  private densityPass: ScreenPass<"density" | "scale"> | null = null;
+  private densityTexture: WebGLTexture | null = null;
+  private densityMap: DensityMap | null = null;
+
+  // Boundary outline
+  private boundaryProgram: WebGLProgram | null = null;
+  private boundaryBuffer: WebGLBuffer | null = null;
+  private boundaryVertexCount: number = 0;
+  private boundaryPositionLoc: number = -1;
+  private boundaryResolutionLoc: WebGLUniformLocation | null = null;
+  private boundaryCameraPositionLoc: WebGLUniformLocation | null = null;
+  private boundaryCameraZoomLoc: WebGLUniformLocation | null = null;
+  private boundaryColorLoc: WebGLUniformLocation | null = null;
+
+  // Brush and selection outlines, drawn with the boundary program
+  private brushBuffer: WebGLBuffer | null = null;
+  private brushVertexCount: number = 0;
+  private selectionBuffer: WebGLBuffer | null = null;
+  private selectionVertexCount: number = 0;
+  private markerVertices: Float32Array = new Float32Array(MARKER_SEGMENTS * 2);
+
+  private settings: RenderSettings = { ...DEFAULT_RENDER_SETTINGS };
+  private width: number = 1;
+  private height: number = 1;
+
+  // Trails: each frame fades the previous one into the other target, draws
+  // the particles on top and copies the result to the screen
+  private trailPass: ScreenPass<TrailUniform> | null = null;
+  private screenVertexArray: WebGLVertexArrayObject | null = null;
+  private trailTargets: RenderTarget[] = [];
+  // Camera the previous trail frame was drawn with; null starts afresh
+  private trailCamera: { position: [number, number]; zoom: number } | null =
+    null;
+  // Half float targets fade smoothly and hold HDR colors; 8-bit is the
+  // fallback
+  private floatTargets: boolean = false;
+
+  // Post-processing: the scene is drawn into a float target, its bright
+  // parts are blurred at reduced size and both are combined on screen
+  private thresholdPass: ScreenPass<"source" | "threshold"> | null = null;
+  private blurPass: ScreenPass<"source" | "direction"> | null = null;
+  private compositePass: ScreenPass<
+    "scene" | "bloom" | "bloomIntensity" | "toneMapping" | "exposure"
+  > | null = null;
+  private postTargets: {
+    scene: RenderTarget;
+    bloom: [RenderTarget, RenderTarget];
+  } | null = null;
+
+  constructor(canvas: HTMLCanvasElement) {
+    const gl = canvas.getContext("webgl2");
+    if (!gl) {
+      throw new Error("WebGL2 not supported");
+    }
+
+    this.gl = gl;
+
+    try {
+      // Create Program
+      this.program = this.createProgram(
+        vertexShaderSource,
+        fragmentShaderSource,
+      );
+      console.log("WebGL program created successfully");
+
+      // Get attribute locations
+      this.positionLoc = gl.getAttribLocation(this.program, "a_position");
+      this.colorLoc = gl.getAttribLocation(this.program, "a_color");
+      this.sizeLoc = gl.getAttribLocation(this.program, "a_size");
+      this.valueLoc = gl.getAttribLocation(this.program, "a_value");
+
+      console.log("Attribute locations:", {
+        position: this.positionLoc,
+        color: this.colorLoc,
+        size: this.sizeLoc,
+        value: this.valueLoc,
+      });
+
+      // Get uniform locations
+      this.resolutionLoc = gl.getUniformLocation(this.program, "u_resolution");
+      this.pointSizeLoc = gl.getUniformLocation(this.program, "u_pointSize");
+      this.cameraPositionLoc = gl.getUniformLocation(
+        this.program,
+        "u_cameraPosition",
+      );
+      this.cameraZoomLoc = gl.getUniformLocation(this.program, "u_cameraZoom");
+      this.useGradientLoc = gl.getUniformLocation(
+        this.program,
+        "u_useGradient",
+      );
+      this.gradientLoc = gl.getUniformLocation(this.program, "u_gradient");
+      this.gradientStopsLoc = gl.getUniformLocation(
+        this.program,
+        "u_gradientStops",
+      );
+      this.valueRangeLoc = gl.getUniformLocation(this.program, "u_valueRange");
+
+      console.log("Uniform locations:", {
+        resolution: this.resolutionLoc,
+        pointSize: this.pointSizeLoc,
+        cameraPosition: this.cameraPositionLoc,
+        cameraZoom: this.cameraZoomLoc,
+      });
+
+      if (
+        !this.resolutionLoc ||
+        !this.pointSizeLoc ||
+        !this.cameraPositionLoc ||
+        !this.cameraZoomLoc
+      ) {
+        throw new Error("Failed to get uniform locations");
+      }
+
+      // Create Buffers
+      this.positionBuffer = gl.createBuffer();
+      this.colorBuffer = gl.createBuffer();
+      this.sizeBuffer = gl.createBuffer();
+      this.valueBuffer = gl.createBuffer();
+      this.indexBuffer = gl.createBuffer();
+
+      if (
+        !this.positionBuffer ||
+        !this.colorBuffer ||
+        !this.sizeBuffer ||
+        !this.valueBuffer ||
+        !this.indexBuffer
+      ) {
+        throw new Error("Failed to create buffers");
+      }
+
+      this.setupParticleVertexArray();
+      this.setupBoundaryProgram();
+      this.setupScreenPasses();
+      this.setupGL();
+      console.log("WebGL renderer initialized successfully");
+    } catch (error) {
+      console.error("Failed to initialize WebGL renderer:", error);
+      this.dispose();
+      throw error;
+    }
+  }
+
+  private createShader(type: number, source: string): WebGLShader {
+    const gl = this.gl;
+    const shader = gl.createShader(type);
+    if (!shader) {
+      throw new Error("Failed to create shader");
+    }
+
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      const info = gl.getShaderInfoLog(shader);
+      gl.deleteShader(shader);
+      throw new Error(
+        `Error compiling ${type === gl.VERTEX_SHADER ? "vertex" : "fragment"} shader: ${info}`,
+      );
+    }
+
+    return shader;
+  }
+
+  private createProgram(
+    vertexSource: string,
+    fragmentSource: string,
+  ): WebGLProgram {
+    const gl = this.gl;
+
+    console.log("Creating shaders...");
+    const vertexShader = this.createShader(gl.VERTEX_SHADER, vertexSource);
+    const fragmentShader = this.createShader(
+      gl.FRAGMENT_SHADER,
+      fragmentSource,
+    );
+    console.log("Shaders created successfully");
+
+    const program = gl.createProgram();
+    if (!program) {
+      throw new Error("Failed to create program");
+    }
+
+    gl.attachShader(program, vertexShader);
+    gl.attachShader(program, fragmentShader);
+    gl.linkProgram(program);
+
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      const info = gl.getProgramInfoLog(program);
+      gl.deleteProgram(program);
+      throw new Error(`Error linking program: ${info}`);
+    }
+
+    // Clean up shaders
+    gl.deleteShader(vertexShader);
+    gl.deleteShader(fragmentShader);
+
+    return program;
+  }
+
+  /**
+   * Record the particle attribute layout and the index buffer of visible
+   * particles once; drawing then only binds the vertex array
+   */
+  private setupParticleVertexArray(): void {
+    const gl = this.gl;
+
+    this.particleVertexArray = gl.createVertexArray();
+    if (!this.particleVertexArray) {
+      throw new Error("Failed to create particle vertex array");
+    }
+
+    gl.bindVertexArray(this.particleVertexArray);
+
+    const attributes: [WebGLBuffer | null, number, number][] = [
+      [this.positionBuffer, this.positionLoc, 2],
+      [this.colorBuffer, this.colorLoc, 3],
+      [this.sizeBuffer, this.sizeLoc, 1],
+      [this.valueBuffer, this.valueLoc, 1],
+    ];
+    for (const [buffer, location, components] of attributes) {
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, components, gl.FLOAT, false, 0, 0);
+    }
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+
+    gl.bindVertexArray(null);
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+  }
+
+  /**
+   * Grow the particle buffers to hold at least `count` particles. Their
+   * contents are lost, so colors, sizes and color mode values are uploaded
+   * again.
+   */
+  private ensureParticleCapacity(count: number): void {
+    if (count <= this.particleCapacity) return;
+
+    const gl = this.gl;
+    const capacity = Math.max(
+      MIN_PARTICLE_CAPACITY,
+      Math.ceil(count * PARTICLE_CAPACITY_GROWTH),
+    );
+
+    const buffers: [WebGLBuffer | null, number][] = [
+      [this.positionBuffer, 2],
+      [this.colorBuffer, 3],
+      [this.sizeBuffer, 1],
+      [this.valueBuffer, 1],
+    ];
+    for (const [buffer, components] of buffers) {
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+      gl.bufferData(
+        gl.ARRAY_BUFFER,
+        capacity * components * Float32Array.BYTES_PER_ELEMENT,
+        gl.DYNAMIC_DRAW,
+      );
+    }
+
+    // The index buffer is bound through the vertex array
+    gl.bindVertexArray(this.particleVertexArray);
+    gl.bufferData(
+      gl.ELEMENT_ARRAY_BUFFER,
+      capacity * Uint32Array.BYTES_PER_ELEMENT,
+      gl.DYNAMIC_DRAW,
+    );
+    gl.bindVertexArray(null);
+
+    this.particleCapacity = capacity;
+    this.attributesDirty = true;
+    this.colorValueCount = 0;
+  }
+
+  /**
+   * Upload colors and sizes on the next render, after the particle system
+   * changed them
+   */
+  public markAttributesDirty(): void {
+    this.attributesDirty = true;
+  }
+
+  /**
+   * Draw only the first `count` of these particles, e.g. the ones in view,
+   * or all with null. The array is read on every render, not copied.
+   */
+  public setVisibleParticles(indices: Uint32Array | null, count = 0): void {
+    this.visibleParticles = indices;
+    this.visibleCount = indices ? Math.min(count, indices.length) : 0;
+  }
+
+  /**
+   * Switch between drawing every particle and the density map
+   */
+  public setDensityLod(enabled: boolean): void {
+    this.densityLod = enabled;
+    if (!enabled) {
+      this.densityMap = null;
+    }
+  }
+
+  /**
+   * Upload the visible particles into the index buffer, returning how many
+   * there are, or null to draw every particle. A list that refers to
+   * particles past `particleCount` is out of date and draws everything. The
+   * particle vertex array must be bound.
+   */
+  private uploadVisibleIndices(particleCount: number): number | null {
+    const indices = this.visibleParticles;
+    const count = this.visibleCount;
+    if (!indices || count > particleCount) return null;
+
+    for (let i = 0; i < count; i++) {
+      if (indices[i] >= particleCount) return null;
+    }
+
+    if (count > 0) {
+      const gl = this.gl;
+      gl.bufferSubData(gl.ELEMENT_ARRAY_BUFFER, 0, indices, 0, count);
+    }
+    return count;
+  }
+
+  /**
+   * Gradient colors for the density map, rebuilt when the ramp changes
+   */
+  private getGradientTable(stops: GradientStops): Float32Array {
+    if (this.gradientTable?.stops !== stops) {
+      this.gradientTable = {
+        stops,
+        table: createGradientTable(stops, GRADIENT_TABLE_SIZE),
+      };
+    }
+    return this.gradientTable.table;
+  }
+
+  /**
+   * Bin the particles into screen cells and upload the map. A cell's
+   * coverage is the share of it their points would fill, its color their
+   * mean weighted by area.
+   */
+  private updateDensityMap(
+    positions: Float32Array,
+    colors: Float32Array,
+    sizes: Float32Array,
+    particleCount: number,
+    cameraPosition: [number, number],
+    cameraZoom: number,
+  ): void {
+    if (!this.densityTexture) return;
+
+    const gl = this.gl;
+    const columns = Math.ceil(this.width / DENSITY_CELL_SIZE);
+    const rows = Math.ceil(this.height / DENSITY_CELL_SIZE);
+
+    let map = this.densityMap;
+    const resized = !map || map.columns !== columns || map.rows !== rows;
+    if (!map || resized) {
+      map = {
+        columns,
+        rows,
+        areas: new Float32Array(columns * rows),
+        colors: new Float32Array(columns * rows * 3),
+        texels: new Uint8Array(columns * rows * 4),
+      };
+      this.densityMap = map;
+    } else {
+      map.areas.fill(0);
+      map.colors.fill(0);
+    }
+
+    // Color mode values go through the same gradient as in the shader
+    const mapping =
+      this.colorMapping && this.colorMapping.values.length >= particleCount
+        ? this.colorMapping
+        : null;
+    const table = mapping ? this.getGradientTable(mapping.gradient) : colors;
+    const valueMin = mapping ? mapping.min : 0;
+    const valueSpan = mapping ? Math.max(mapping.max - mapping.min, 1e-6) : 1;
+
+    const { areas, texels } = map;
+    const cellColors = map.colors;
+    for (let i = 0; i < particleCount; i++) {
+      const x =
+        (positions[i * 2] - cameraPosition[0]) * cameraZoom + this.width / 2;
+      const y =
+        (positions[i * 2 + 1] - cameraPosition[1]) * cameraZoom +
+        this.height / 2;
+      if (x < 0 || y < 0 || x >= this.width || y >= this.height) continue;
+
+      const cell =
+        Math.floor(y / DENSITY_CELL_SIZE) * columns +
+        Math.floor(x / DENSITY_CELL_SIZE);
+
+      // Points are rasterized at least a pixel wide
+      const diameter = sizes[i] * cameraZoom;
+      const area = Math.max(1, (Math.PI * diameter * diameter) / 4);
+
+      let offset = i * 3;
+      if (mapping) {
+        const t = Math.max(
+          0,
+          Math.min(1, (mapping.values[i] - valueMin) / valueSpan),
+        );
+        offset = Math.round(t * (GRADIENT_TABLE_SIZE - 1)) * 3;
+      }
+
+      areas[cell] += area;
+      cellColors[cell * 3] += table[offset] * area;
+      cellColors[cell * 3 + 1] += table[offset + 1] * area;
+      cellColors[cell * 3 + 2] += table[offset + 2] * area;
+    }
+
+    const cellArea = DENSITY_CELL_SIZE * DENSITY_CELL_SIZE;
+    for (let cell = 0; cell < areas.length; cell++) {
+      const area = areas[cell];
+      const coverage = 1 - Math.exp(-area / cellArea);
+      const scale = area > 0 ? (coverage * 255) / area : 0;
+      texels[cell * 4] = Math.min(
+        255,
+        Math.round(cellColors[cell * 3] * scale),
+      );
+      texels[cell * 4 + 1] = Math.min(
+        255,
+        Math.round(cellColors[cell * 3 + 1] * scale),
+      );
+      texels[cell * 4 + 2] = Math.min(
+        255,
+        Math.round(cellColors[cell * 3 + 2] * scale),
+      );
+      texels[cell * 4 + 3] = Math.round(coverage * 255);
+    }
+
+    gl.bindTexture(gl.TEXTURE_2D, this.densityTexture);
+    if (resized) {
+      gl.texImage2D(
+        gl.TEXTURE_2D,
+        0,
+        gl.RGBA8,
+        columns,
+        rows,
+        0,
+        gl.RGBA,
+        gl.UNSIGNED_BYTE,
+        texels,
+      );
+    } else {
+      gl.texSubImage2D(
+        gl.TEXTURE_2D,
+        0,
+        0,
+        0,
+        columns,
+        rows,
+        gl.RGBA,
+        gl.UNSIGNED_BYTE,
+        texels,
+      );
+    }
+    gl.bindTexture(gl.TEXTURE_2D, null);
+  }
+
+  /**
+   * Draw the density map over a target's contents (null is the screen)
+   */
+  private renderDensityMap(target: RenderTarget | null): void {
+    const map = this.densityMap;
+    if (!this.densityPass || !this.densityTexture || !map) return;
+
+    const gl = this.gl;
+    const { program, uniforms } = this.densityPass;
+
+    gl.useProgram(program);
+    this.bindTextures(this.densityTexture);
+    gl.uniform1i(uniforms.density, 0);
+    gl.uniform2f(
+      uniforms.scale,
+      this.width / (map.columns * DENSITY_CELL_SIZE),
+      this.height / (map.rows * DENSITY_CELL_SIZE),
+    );
+
+    this.drawScreenPass(target, true);
+  }
+
+  private setupBoundaryProgram(): void {
+    const gl = this.gl;
+
+    this.boundaryProgram = this.createProgram(
+      boundaryVertexShaderSource,
+      boundaryFragmentShaderSource,
+    );
+
+    this.boundaryPositionLoc = gl.getAttribLocation(
+      this.boundaryProgram,
+      "a_position",
+    );
+    this.boundaryResolutionLoc = gl.getUniformLocation(
+      this.boundaryProgram,
+      "u_resolution",
+    );
+    this.boundaryCameraPositionLoc = gl.getUniformLocation(
+      this.boundaryProgram,
+      "u_cameraPosition",
+    );
+    this.boundaryCameraZoomLoc = gl.getUniformLocation(
+      this.boundaryProgram,
+      "u_cameraZoom",
+    );
+    this.boundaryColorLoc = gl.getUniformLocation(
+      this.boundaryProgram,
+      "u_color",
+    );
+
+    this.boundaryBuffer = gl.createBuffer();
+    this.brushBuffer = gl.createBuffer();
+    this.selectionBuffer = gl.createBuffer();
+    if (!this.boundaryBuffer || !this.brushBuffer || !this.selectionBuffer) {
+      throw new Error("Failed to create boundary buffer");
+    }
+  }
+
+  private setupScreenPasses(): void {
+    const gl = this.gl;
+
+    this.trailPass = this.createScreenPass(trailFragmentShaderSource, [
+      "previous",
+      "resolution",
+      "cameraPosition",
+      "cameraZoom",
+      "previousCameraPosition",
+      "previousCameraZoom",
+      "persistence",
+      "background",
+    ]);
+    this.thresholdPass = this.createScreenPass(
+      bloomThresholdFragmentShaderSource,
+      ["source", "threshold"],
+    );
+    this.blurPass = this.createScreenPass(blurFragmentShaderSource, [
+      "source",
+      "direction",
+    ]);
+    this.compositePass = this.createScreenPass(compositeFragmentShaderSource, [
+      "scene",
+      "bloom",
+      "bloomIntensity",
+      "toneMapping",
+      "exposure",
+    ]);
+    this.densityPass = this.createScreenPass(densityFragmentShaderSource, [
+      "density",
+      "scale",
+    ]);
+
+    this.densityTexture = gl.createTexture();
+    if (!this.densityTexture) {
+      throw new Error("Failed to create density texture");
+    }
+    gl.bindTexture(gl.TEXTURE_2D, this.densityTexture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+
+    // The full-screen triangle has no attributes, an empty vertex array
+    // keeps the outline attribute out of the way
+    this.screenVertexArray = gl.createVertexArray();
+    if (!this.screenVertexArray) {
+      throw new Error("Failed to create screen vertex array");
+    }
+
+    this.floatTargets = gl.getExtension("EXT_color_buffer_float") !== null;
+  }
+
+  private createScreenPass<Uniform extends string>(
+    fragmentSource: string,
+    uniformNames: Uniform[],
+  ): ScreenPass<Uniform> {
+    const program = this.createProgram(
+      screenVertexShaderSource,
+      fragmentSource,
+    );
+
+    const uniforms = {} as Record<Uniform, WebGLUniformLocation | null>;
+    for (const name of uniformNames) {
+      uniforms[name] = this.gl.getUniformLocation(program, `u_${name}`);
+    }
+
+    return { program, uniforms };
+  }
+
+  private setupGL() {
+    const gl = this.gl;
+
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA); // Fixed typo: was STC_ALPHA
+
+    gl.clearColor(...BACKGROUND_COLOR, 1.0);
+  }
+
+  public resize(width: number, height: number): void {
+    if (!this.program || !this.gl.isProgram(this.program)) {
+      console.error("Invalid program in resize");
+      return;
+    }
+
+    if (!this.resolutionLoc) {
+      console.error("Resolution uniform location is null");
+      return;
+    }
+
+    const gl = this.gl;
+    gl.viewport(0, 0, width, height);
+    this.width = width;
+    this.height = height;
+
+    // Offscreen targets are recreated at the new size; trails restart
+    this.deleteTrailTargets();
+    this.deletePostTargets();
+
+    gl.useProgram(this.program);
+    gl.uniform2f(this.resolutionLoc, width, height);
+
+    if (this.boundaryProgram) {
+      gl.useProgram(this.boundaryProgram);
+      gl.uniform2f(this.boundaryResolutionLoc, width, height);
+    }
+  }
+
+  /**
+   * Set the world boundary outline to draw, or null to hide it
+   */
+  public setBoundary(shape: BoundaryShape | null): void {
+    if (!this.boundaryBuffer) return;
+
+    if (!shape) {
+      this.boundaryVertexCount = 0;
+      return;
+    }
+
+    let vertices: Float32Array;
+
+    if (shape.type === "rect") {
+      const halfWidth = shape.width / 2;
+      const halfHeight = shape.height / 2;
+      vertices = new Float32Array([
+        -halfWidth,
+        -halfHeight,
+        halfWidth,
+        -halfHeight,
+        halfWidth,
+        halfHeight,
+        -halfWidth,
+        halfHeight,
+      ]);
+    } else {
+      vertices = new Float32Array(CIRCLE_SEGMENTS * 2);
+      for (let i = 0; i < CIRCLE_SEGMENTS; i++) {
+        const angle = (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+        vertices[i * 2] = Math.cos(angle) * shape.radius;
+        vertices[i * 2 + 1] = Math.sin(angle) * shape.radius;
+      }
+    }
+
+    const gl = this.gl;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.boundaryBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, vertices, gl.STATIC_DRAW);
+    this.boundaryVertexCount = vertices.length / 2;
+  }
+
+  /**
+   * Apply display settings; trails restart when turned on, and offscreen
+   * targets of stages turned off are released
+   */
+  public setRenderSettings(settings: RenderSettings): void {
+    if (settings.trails !== this.settings.trails) {
+      this.deleteTrailTargets();
+    }
+    if (!usesPostProcessing(settings)) {
+      this.deletePostTargets();
+    }
+    this.settings = { ...settings };
+  }
+
+  /**
+   * Drop the accumulated trails, e.g. after the world was replaced
+   */
+  public clearTrails(): void {
+    this.trailCamera = null;
+  }
+
+  /**
+   * Create a color target to draw into and sample from, or null if the GPU
+   * can't render to it
+   */
+  private createRenderTarget(
+    width: number,
+    height: number,
+  ): RenderTarget | null {
+    const gl = this.gl;
+    const texture = gl.createTexture();
+    const framebuffer = gl.createFramebuffer();
+    if (!texture || !framebuffer) {
+      gl.deleteTexture(texture);
+      gl.deleteFramebuffer(framebuffer);
+      return null;
+    }
+
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(
+      gl.TEXTURE_2D,
+      0,
+      this.floatTargets ? gl.RGBA16F : gl.RGBA8,
+      width,
+      height,
+      0,
+      gl.RGBA,
+      this.floatTargets ? gl.HALF_FLOAT : gl.UNSIGNED_BYTE,
+      null,
+    );
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(
+      gl.FRAMEBUFFER,
+      gl.COLOR_ATTACHMENT0,
+      gl.TEXTURE_2D,
+      texture,
+      0,
+    );
+
+    const complete =
+      gl.checkFramebufferStatus(gl.FRAMEBUFFER) === gl.FRAMEBUFFER_COMPLETE;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+
+    const target = { framebuffer, texture, width, height };
+    if (!complete) {
+      this.deleteRenderTarget(target);
+      return null;
+    }
+    return target;
+  }
+
+  private deleteRenderTarget(target: RenderTarget): void {
+    this.gl.deleteFramebuffer(target.framebuffer);
+    this.gl.deleteTexture(target.texture);
+  }
+
+  /**
+   * Create the two trail frames at the canvas size, if missing. Returns
+   * false (and turns trails off) if the GPU can't render to them.
+   */
+  private ensureTrailTargets(): boolean {
+    if (this.trailTargets.length === 2) return true;
+
+    for (let i = 0; i < 2; i++) {
+      const target = this.createRenderTarget(this.width, this.height);
+      if (!target) break;
+      this.trailTargets.push(target);
+    }
+
+    if (this.trailTargets.length < 2) {
+      console.error("Failed to create trail framebuffers, disabling trails");
+      this.deleteTrailTargets();
+      this.settings.trails = false;
+      return false;
+    }
+
+    this.trailCamera = null;
+    return true;
+  }
+
+  private deleteTrailTargets(): void {
+    for (const target of this.trailTargets) {
+      this.deleteRenderTarget(target);
+    }
+    this.trailTargets = [];
+    this.trailCamera = null;
+  }
+
+  /**
+   * Create the scene and bloom targets, if missing. Returns false (and
+   * turns post-processing off) if the GPU can't render to them.
+   */
+  private ensurePostTargets(): boolean {
+    if (this.postTargets) return true;
+
+    const bloomWidth = Math.max(1, Math.floor(this.width / BLOOM_DOWNSAMPLE));
+    const bloomHeight = Math.max(1, Math.floor(this.height / BLOOM_DOWNSAMPLE));
+    const scene = this.createRenderTarget(this.width, this.height);
+    const bloomA = this.createRenderTarget(bloomWidth, bloomHeight);
+    const bloomB = this.createRenderTarget(bloomWidth, bloomHeight);
+
+    if (!scene || !bloomA || !bloomB) {
+      console.error(
+        "Failed to create post-processing framebuffers, disabling bloom and tone mapping",
+      );
+      for (const target of [scene, bloomA, bloomB]) {
+        if (target) this.deleteRenderTarget(target);
+      }
+      this.settings.bloom = false;
+      this.settings.toneMapping = false;
+      return false;
+    }
+
+    this.postTargets = { scene, bloom: [bloomA, bloomB] };
+    return true;
+  }
+
+  private deletePostTargets(): void {
+    if (!this.postTargets) return;
+
+    this.deleteRenderTarget(this.postTargets.scene);
+    this.postTargets.bloom.forEach((target) => this.deleteRenderTarget(target));
+    this.postTargets = null;
+  }
+
+  /**
+   * Draw the full-screen triangle into a target (null is the screen),
+   * replacing its contents, or with `blend` over them using the current
+   * blend function
+   */
+  private drawScreenPass(
+    target: RenderTarget | null,
+    blend: boolean = false,
+  ): void {
+    const gl = this.gl;
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target ? target.framebuffer : null);
+    gl.viewport(
+      0,
+      0,
+      target ? target.width : this.width,
+      target ? target.height : this.height,
+    );
+    if (!blend) {
+      gl.disable(gl.BLEND);
+    }
+    gl.bindVertexArray(this.screenVertexArray);
+
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+
+    gl.bindVertexArray(null);
+    gl.enable(gl.BLEND);
+    gl.viewport(0, 0, this.width, this.height);
+  }
+
+  /**
+   * Bind textures to units 0, 1, ... for the next pass
+   */
+  private bindTextures(...textures: WebGLTexture[]): void {
+    const gl = this.gl;
+    textures.forEach((texture, unit) => {
+      gl.activeTexture(gl.TEXTURE0 + unit);
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+    });
+    gl.activeTexture(gl.TEXTURE0);
+  }
+
+  /**
+   * Draw a trail frame over the whole target, reprojected from the camera
+   * it was drawn with and faded by `persistence`
+   */
+  private renderTrailPass(
+    texture: WebGLTexture,
+    target: RenderTarget | null,
+    cameraPosition: [number, number],
+    cameraZoom: number,
+    previousCamera: { position: [number, number]; zoom: number },
+    persistence: number,
+  ): void {
+    if (!this.trailPass) return;
+
+    const gl = this.gl;
+    const { program, uniforms } = this.trailPass;
+
+    gl.useProgram(program);
+    this.bindTextures(texture);
+    gl.uniform1i(uniforms.previous, 0);
+    gl.uniform2f(uniforms.resolution, this.width, this.height);
+    gl.uniform2f(uniforms.cameraPosition, cameraPosition[0], cameraPosition[1]);
+    gl.uniform1f(uniforms.cameraZoom, cameraZoom);
+    gl.uniform2f(
+      uniforms.previousCameraPosition,
+      previousCamera.position[0],
+      previousCamera.position[1],
+    );
+    gl.uniform1f(uniforms.previousCameraZoom, previousCamera.zoom);
+    gl.uniform1f(uniforms.persistence, persistence);
+    gl.uniform3f(uniforms.background, ...BACKGROUND_COLOR);
+
+    this.drawScreenPass(target);
+  }
+
+  /**
+   * Bloom and tone map a rendered scene onto the screen
+   */
+  private renderPostProcessing(scene: WebGLTexture): void {
+    const targets = this.postTargets;
+    if (
+      !targets ||
+      !this.thresholdPass ||
+      !this.blurPass ||
+      !this.compositePass
+    ) {
+      return;
+    }
+
+    const gl = this.gl;
+    const settings = this.settings;
+    const [bloomA, bloomB] = targets.bloom;
+
+    if (settings.bloom) {
+      // Bright parts of the scene, at reduced size
+      gl.useProgram(this.thresholdPass.program);
+      this.bindTextures(scene);
+      gl.uniform1i(this.thresholdPass.uniforms.source, 0);
+      gl.uniform1f(
+        this.thresholdPass.uniforms.threshold,
+        settings.bloomThreshold,
+      );
+      this.drawScreenPass(bloomA);
+
+      // Separable blur, bouncing between the two bloom targets
+      const { uniforms } = this.blurPass;
+      gl.useProgram(this.blurPass.program);
+      gl.uniform1i(uniforms.source, 0);
+      const stepX = settings.bloomRadius / bloomA.width;
+      const stepY = settings.bloomRadius / bloomA.height;
+      for (let i = 0; i < BLOOM_BLUR_ITERATIONS; i++) {
+        this.bindTextures(bloomA.texture);
+        gl.uniform2f(uniforms.direction, stepX, 0);
+        this.drawScreenPass(bloomB);
+
+        this.bindTextures(bloomB.texture);
+        gl.uniform2f(uniforms.direction, 0, stepY);
+        this.drawScreenPass(bloomA);
+      }
+    }
+
+    const { uniforms } = this.compositePass;
+    gl.useProgram(this.compositePass.program);
+    this.bindTextures(scene, bloomA.texture);
+    gl.uniform1i(uniforms.scene, 0);
+    gl.uniform1i(uniforms.bloom, 1);
+    gl.uniform1f(
+      uniforms.bloomIntensity,
+      settings.bloom ? settings.bloomIntensity : 0,
+    );
+    gl.uniform1i(uniforms.toneMapping, settings.toneMapping ? 1 : 0);
+    gl.uniform1f(uniforms.exposure, settings.exposure);
+    this.drawScreenPass(null);
+  }
+
+  /**
+   * Color particles by per-particle values through a gradient, or by their
+   * species colors again with null
+   */
+  public setColorMapping(mapping: ColorMapping | null): void {
+    const gl = this.gl;
+
+    if (!mapping || !this.program || !this.valueBuffer) {
+      this.colorValueCount = 0;
+      this.colorMapping = null;
+      return;
+    }
+
+    this.ensureParticleCapacity(mapping.values.length);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.valueBuffer);
+    gl.bufferSubData(gl.ARRAY_BUFFER, 0, mapping.values);
+    this.colorValueCount = mapping.values.length;
+    this.colorMapping = mapping;
+
+    const stops = mapping.gradient.slice(0, MAX_GRADIENT_STOPS);
+    gl.useProgram(this.program);
+    gl.uniform3fv(this.gradientLoc, stops.flat());
+    gl.uniform1i(this.gradientStopsLoc, stops.length);
+    gl.uniform2f(this.valueRangeLoc, mapping.min, mapping.max);
+  }
+
+  /**
+   * Set the brush circle to draw at a world position, or null to hide it
+   */
+  public setBrushOutline(outline: CircleOutline | null): void {
+    this.brushVertexCount = this.uploadCircle(this.brushBuffer, outline);
+  }
+
+  /**
+   * Set the ring marking the selected particle, or null to hide it
+   */
+  public setSelectionOutline(outline: CircleOutline | null): void {
+    this.selectionVertexCount = this.uploadCircle(
+      this.selectionBuffer,
+      outline,
+    );
+  }
+
+  /**
+   * Write a circle's vertices into a buffer, returning the vertex count
+   */
+  private uploadCircle(
+    buffer: WebGLBuffer | null,
+    outline: CircleOutline | null,
+  ): number {
+    if (!buffer || !outline) return 0;
+
+    const vertices = this.markerVertices;
+    for (let i = 0; i < MARKER_SEGMENTS; i++) {
+      const angle = (i / MARKER_SEGMENTS) * Math.PI * 2;
+      vertices[i * 2] = outline.x + Math.cos(angle) * outline.radius;
+      vertices[i * 2 + 1] = outline.y + Math.sin(angle) * outline.radius;
+    }
+
+    const gl = this.gl;
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, vertices, gl.DYNAMIC_DRAW);
+    return MARKER_SEGMENTS;
+  }
+
+  private renderOutline(
+    buffer: WebGLBuffer | null,
+    vertexCount: number,
+    alpha: number,
+    cameraPosition: [number, number],
+    cameraZoom: number,
+  ): void {
+    if (!this.boundaryProgram || !buffer || vertexCount === 0) {
+      return;
+    }
+
+    const gl = this.gl;
+
+    gl.useProgram(this.boundaryProgram);
+    gl.uniform2f(
+      this.boundaryCameraPositionLoc,
+      cameraPosition[0],
+      cameraPosition[1],
+    );
+    gl.uniform1f(this.boundaryCameraZoomLoc, cameraZoom);
+    gl.uniform4f(this.boundaryColorLoc, 1.0, 1.0, 1.0, alpha);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.enableVertexAttribArray(this.boundaryPositionLoc);
+    gl.vertexAttribPointer(this.boundaryPositionLoc, 2, gl.FLOAT, false, 0, 0);
+
+    gl.drawArrays(gl.LINE_LOOP, 0, vertexCount);
+  }
+
+  public render(
+    positions: Float32Array,
+    colors: Float32Array,
+    sizes: Float32Array,
+    particleCount: number,
+    cameraPosition: [number, number],
+    cameraZoom: number,
+    frameTime: number = 1 / 60,
+  ): void {
+    if (!this.program || !this.gl.isProgram(this.program)) {
+      console.error("Invalid program in render");
+      return;
+    }
+
+    if (
+      !this.positionBuffer ||
+      !this.colorBuffer ||
+      !this.sizeBuffer ||
+      !this.particleVertexArray
+    ) {
+      console.error("Buffers not initialized");
+      return;
+    }
+
+    if (!this.pointSizeLoc || !this.cameraPositionLoc || !this.cameraZoomLoc) {
+      console.error("Uniform locations are null");
+      return;
+    }
+
+    const gl = this.gl;
+    const useTrails = this.settings.trails && this.ensureTrailTargets();
+    const usePost =
+      usesPostProcessing(this.settings) && this.ensurePostTargets();
+    const [trailTarget, previousTrail] = this.trailTargets;
+
+    // Particles are drawn into the trail frame, the post-processing input
+    // or straight onto the screen
+    let sceneTarget: RenderTarget | null = null;
+
+    if (useTrails) {
+      sceneTarget = trailTarget;
+
+      if (this.trailCamera) {
+        this.renderTrailPass(
+          previousTrail.texture,
+          trailTarget,
+          cameraPosition,
+          cameraZoom,
+          this.trailCamera,
+          // Persistence is per 60 Hz frame, independent of the frame rate
+          Math.pow(this.settings.trailPersistence, frameTime * 60),
+        );
+      } else {
+        gl.bindFramebuffer(gl.FRAMEBUFFER, trailTarget.framebuffer);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+      }
+    } else if (usePost && this.postTargets) {
+      sceneTarget = this.postTargets.scene;
+      gl.bindFramebuffer(gl.FRAMEBUFFER, sceneTarget.framebuffer);
+      gl.clear(gl.COLOR_BUFFER_BIT);
+    } else {
+      gl.clear(gl.COLOR_BUFFER_BIT);
+    }
+
+    // Additive blending lets dense clusters exceed full brightness, which
+    // bloom and tone mapping then pick up
+    gl.blendFunc(
+      gl.SRC_ALPHA,
+      this.settings.additiveBlending ? gl.ONE : gl.ONE_MINUS_SRC_ALPHA,
+    );
+
+    gl.useProgram(this.program);
+
+    // Set uniforms
+    gl.uniform1f(this.pointSizeLoc, 1.0);
+    gl.uniform2f(this.cameraPositionLoc, cameraPosition[0], cameraPosition[1]);
+    gl.uniform1f(this.cameraZoomLoc, cameraZoom);
+
+    // Zoomed far out, the density map stands in for the particles. Nothing
+    // is drawn without particles: a zero upload length means "everything".
+    if (particleCount > 0 && this.densityLod) {
+      this.updateDensityMap(
+        positions,
+        colors,
+        sizes,
+        particleCount,
+        cameraPosition,
+        cameraZoom,
+      );
+      this.renderDensityMap(sceneTarget);
+    } else if (particleCount > 0) {
+      this.ensureParticleCapacity(particleCount);
+
+      // Positions change every frame and are written in place
+      gl.bindBuffer(gl.ARRAY_BUFFER, this.positionBuffer);
+      gl.bufferSubData(gl.ARRAY_BUFFER, 0, positions, 0, particleCount * 2);
+
+      // Colors and sizes only when the particle system changed them
+      if (this.attributesDirty) {
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.colorBuffer);
+        gl.bufferSubData(gl.ARRAY_BUFFER, 0, colors, 0, particleCount * 3);
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.sizeBuffer);
+        gl.bufferSubData(gl.ARRAY_BUFFER, 0, sizes, 0, particleCount);
+        this.attributesDirty = false;
+      }
+
+      // Color mode values, if there is one for every particle
+      const useGradient =
+        this.colorValueCount > 0 && this.colorValueCount >= particleCount;
+      gl.uniform1i(this.useGradientLoc, useGradient ? 1 : 0);
+
+      gl.bindVertexArray(this.particleVertexArray);
+      const visibleCount = this.uploadVisibleIndices(particleCount);
+      if (visibleCount === null) {
+        gl.drawArrays(gl.POINTS, 0, particleCount);
+      } else if (visibleCount > 0) {
+        gl.drawElements(gl.POINTS, visibleCount, gl.UNSIGNED_INT, 0);
+      }
+      gl.bindVertexArray(null);
+    }
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+
+    // Show the offscreen image; outlines are drawn on top, so they neither
+    // leave trails nor bloom
+    if (sceneTarget && usePost) {
+      this.renderPostProcessing(sceneTarget.texture);
+    } else if (sceneTarget) {
+      const camera = { position: cameraPosition, zoom: cameraZoom };
+      this.renderTrailPass(
+        sceneTarget.texture,
+        null,
+        cameraPosition,
+        cameraZoom,
+        camera,
+        1,
+      );
+    }
+
+    if (useTrails) {
+      this.trailTargets.reverse();
+      this.trailCamera = {
+        position: [cameraPosition[0], cameraPosition[1]],
+        zoom: cameraZoom,
+      };
+    }
+
+    this.renderOutline(
+      this.boundaryBuffer,
+      this.boundaryVertexCount,
+      0.25,
+      cameraPosition,
+      cameraZoom,
+    );
+    this.renderOutline(
+      this.brushBuffer,
+      this.brushVertexCount,
+      0.5,
+      cameraPosition,
+      cameraZoom,
+    );
+    this.renderOutline(
+      this.selectionBuffer,
+      this.selectionVertexCount,
+      0.9,
+      cameraPosition,
+      cameraZoom,
+    );
+  }
+
+  public dispose(): void {
+    const gl = this.gl;
+
+    if (this.positionBuffer) {
+      gl.deleteBuffer(this.positionBuffer);
+      this.positionBuffer = null;
+    }
+    if (this.colorBuffer) {
+      gl.deleteBuffer(this.colorBuffer);
+      this.colorBuffer = null;
+    }
+    if (this.sizeBuffer) {
+      gl.deleteBuffer(this.sizeBuffer);
+      this.sizeBuffer = null;
+    }
+    if (this.valueBuffer) {
+      gl.deleteBuffer(this.valueBuffer);
+      this.valueBuffer = null;
+    }
+    if (this.indexBuffer) {
+      gl.deleteBuffer(this.indexBuffer);
+      this.indexBuffer = null;
+    }
+    if (this.particleVertexArray) {
+      gl.deleteVertexArray(this.particleVertexArray);
+      this.particleVertexArray = null;
+    }
+    this.particleCapacity = 0;
+    if (this.boundaryBuffer) {
+      gl.deleteBuffer(this.boundaryBuffer);
+      this.boundaryBuffer = null;
+    }
+    if (this.brushBuffer) {
+      gl.deleteBuffer(this.brushBuffer);
+      this.brushBuffer = null;
+    }
+    if (this.selectionBuffer) {
+      gl.deleteBuffer(this.selectionBuffer);
+      this.selectionBuffer = null;
+    }
+    this.deleteTrailTargets();
+    this.deletePostTargets();
+    if (this.screenVertexArray) {
+      gl.deleteVertexArray(this.screenVertexArray);
+      this.screenVertexArray = null;
+    }
+    if (this.densityTexture) {
+      gl.deleteTexture(this.densityTexture);
+      this.densityTexture = null;
+    }
+    this.densityMap = null;
+    if (this.program) {
+      gl.deleteProgram(this.program);
+      this.program = null;
+    }
+    if (this.boundaryProgram) {
+      gl.deleteProgram(this.boundaryProgram);
+      this.boundaryProgram = null;
+    }
+    for (const pass of [
+      this.trailPass,
+      this.thresholdPass,
+      this.blurPass,
+      this.compositePass,
+      this.densityPass,
+    ]) {
+      if (pass) gl.deleteProgram(pass.program);
+    }
+    this.trailPass = null;
+    this.thresholdPass = null;
+    this.blurPass = null;
+    this.compositePass = null;
+    this.densityPass = null;
+  }
+}
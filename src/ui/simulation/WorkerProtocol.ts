@@ -0,0 +1,96 @@
+import type { BoundaryMode, Integrator } from "./ParticleSystem";
+import type { ForceKernelParameters } from "./ForceKernels";
+import type { PhysicsParameters, SpeciesProperties } from "./PhysicsParameters";
+
+/**
+ * Particle arrays shared between the main thread and the physics workers
+ */
+export interface SharedParticleBuffers {
+  positions: SharedArrayBuffer;
+  velocities: SharedArrayBuffer;
+  forces: SharedArrayBuffer;
+  neighborCounts: SharedArrayBuffer;
+  densities: SharedArrayBuffer;
+  stagePositions: SharedArrayBuffer;
+  colorIndices: SharedArrayBuffer;
+}
+
+/**
+ * Snapshot of a world sent to the workers whenever it changes
+ */
+export interface SharedSimulationState {
+  buffers: SharedParticleBuffers;
+  particleCount: number;
+  colorCount: number;
+  colorMatrix: Float32Array;
+  radiusMatrix: Float32Array;
+  repulsionMatrix: Float32Array;
+  species: SpeciesProperties[];
+  physics: PhysicsParameters;
+  boundaryMode: BoundaryMode;
+  integrator: Integrator;
+  forceKernel: string;
+  kernelParameters: ForceKernelParameters;
+  worldSize: { width: number; height: number };
+}
+
+// Messages from the main thread to a worker
+export type WorkerRequest =
+  | {
+      type: "init";
+      index: number;
+      workerCount: number;
+      barrier: SharedArrayBuffer;
+    }
+  | { type: "state"; state: SharedSimulationState }
+  | { type: "step"; steps: number; stepSize: number; substeps: number };
+
+// Messages from a worker to the main thread
+export type WorkerResponse =
+  { type: "done" } | { type: "error"; message: string };
+
+// Layout of the barrier's Int32Array
+const BARRIER_ARRIVED = 0;
+const BARRIER_GENERATION = 1;
+
+/**
+ * Reusable barrier for a fixed number of threads on top of Atomics.
+ * Only usable from workers, the main thread is not allowed to block.
+ */
+export class Barrier {
+  private state: Int32Array;
+  private parties: number;
+
+  constructor(buffer: SharedArrayBuffer, parties: number) {
+    this.state = new Int32Array(buffer);
+    this.parties = parties;
+  }
+
+  /**
+   * Memory for a barrier, to be shared with every participating thread
+   */
+  public static createBuffer(): SharedArrayBuffer {
+    return new SharedArrayBuffer(2 * Int32Array.BYTES_PER_ELEMENT);
+  }
+
+  /**
+   * Block until all parties have called `wait`
+   */
+  public wait(): void {
+    if (this.parties <= 1) return;
+
+    const generation = Atomics.load(this.state, BARRIER_GENERATION);
+
+    if (Atomics.add(this.state, BARRIER_ARRIVED, 1) === this.parties - 1) {
+      // Last to arrive: reset the count and release everyone else
+      Atomics.store(this.state, BARRIER_ARRIVED, 0);
+      Atomics.add(this.state, BARRIER_GENERATION, 1);
+      Atomics.notify(this.state, BARRIER_GENERATION);
+      return;
+    }
+
+    while (Atomics.load(this.state, BARRIER_GENERATION) === generation) {
+      Atomics.wait(this.state, BARRIER_GENERATION, generation);
+    }
+  }
+}
@@ -1,8 +1,13 @@
-// Vertex shader source code with camera support
+// Most stops a color mode gradient may have
+export const MAX_GRADIENT_STOPS = 8;
+
+// Vertex shader source code with camera support. With u_useGradient the
+// color comes from a_value mapped through the gradient instead of a_color.
 export const vertexShaderSource = `#version 300 es
 in vec2 a_position;
 in vec3 a_color;
 in float a_size;
+in float a_value;
 
 out vec3 v_color;
 
@@ -10,6 +15,18 @@ uniform vec2 u_resolution;
 uniform float u_pointSize;
 uniform vec2 u_cameraPosition;
 uniform float u_cameraZoom;
+uniform bool u_useGradient;
+uniform vec3 u_gradient[${MAX_GRADIENT_STOPS}];
+uniform int u_gradientStops;
+uniform vec2 u_valueRange;
+
+vec3 sampleGradient(float value) {
+  float span = max(u_valueRange.y - u_valueRange.x, 0.000001);
+  float t = clamp((value - u_valueRange.x) / span, 0.0, 1.0);
+  float position = t * float(u_gradientStops - 1);
+  int index = min(int(position), u_gradientStops - 2);
+  return mix(u_gradient[index], u_gradient[index + 1], position - float(index));
+}
 
 void main() {
   // Apply camera transformation
@@ -23,7 +40,7 @@ void main() {
   
   gl_Position = vec4(clipSpace * vec2(1, -1), 0, 1);
   gl_PointSize = a_size * u_pointSize * u_cameraZoom;
-  v_color = a_color;
+  v_color = u_useGradient ? sampleGradient(a_value) : a_color;
 }
 `;
 
@@ -52,3 +69,182 @@ void main() {
   fragColor = vec4(finalColor, alpha * 0.8);
 }
 `;
+
+// Boundary outline shaders (world-space line loop)
+export const boundaryVertexShaderSource = `#version 300 es
+in vec2 a_position;
+
+uniform vec2 u_resolution;
+uniform vec2 u_cameraPosition;
+uniform float u_cameraZoom;
+
+void main() {
+  vec2 cameraTransformed = (a_position - u_cameraPosition) * u_cameraZoom;
+  vec2 centered = cameraTransformed + u_resolution * 0.5;
+  vec2 clipSpace = (centered / u_resolution) * 2.0 - 1.0;
+
+  gl_Position = vec4(clipSpace * vec2(1, -1), 0, 1);
+}
+`;
+
+export const boundaryFragmentShaderSource = `#version 300 es
+precision highp float;
+
+uniform vec4 u_color;
+out vec4 fragColor;
+
+void main() {
+  fragColor = u_color;
+}
+`;
+
+// Full-screen triangle for post passes, no vertex buffer needed
+export const screenVertexShaderSource = `#version 300 es
+out vec2 v_uv;
+
+void main() {
+  vec2 corner = vec2((gl_VertexID << 1) & 2, gl_VertexID & 2);
+  v_uv = corner;
+  gl_Position = vec4(corner * 2.0 - 1.0, 0, 1);
+}
+`;
+
+// Copies the previous trail frame, moved to where the camera now is and
+// faded towards the background. Persistence 1 with an unmoved camera is a
+// plain copy, used to show the trails on screen.
+export const trailFragmentShaderSource = `#version 300 es
+precision highp float;
+
+in vec2 v_uv;
+out vec4 fragColor;
+
+uniform sampler2D u_previous;
+uniform vec2 u_resolution;
+uniform vec2 u_cameraPosition;
+uniform float u_cameraZoom;
+uniform vec2 u_previousCameraPosition;
+uniform float u_previousCameraZoom;
+uniform float u_persistence;
+uniform vec3 u_background;
+
+void main() {
+  // Screen pixels run downwards, texture coordinates upwards
+  vec2 screen = vec2(v_uv.x, 1.0 - v_uv.y) * u_resolution;
+  vec2 world = (screen - u_resolution * 0.5) / u_cameraZoom + u_cameraPosition;
+  vec2 previousScreen =
+    (world - u_previousCameraPosition) * u_previousCameraZoom +
+    u_resolution * 0.5;
+  vec2 previousUv = vec2(previousScreen.x, u_resolution.y - previousScreen.y) /
+    u_resolution;
+
+  vec3 previous = u_background;
+  if (all(greaterThanEqual(previousUv, vec2(0.0))) &&
+      all(lessThanEqual(previousUv, vec2(1.0)))) {
+    previous = texture(u_previous, previousUv).rgb;
+  }
+
+  // Fade by at least one 8-bit step so faint trails don't get stuck
+  float minimumFade = u_persistence < 1.0 ? 1.0 / 255.0 : 0.0;
+  vec3 delta = previous - u_background;
+  vec3 faded = max(abs(delta) * u_persistence - minimumFade, 0.0);
+  fragColor = vec4(u_background + sign(delta) * faded, 1.0);
+}
+`;
+
+// Zoomed-out level of detail: a low-resolution map of how much of each
+// screen cell the particles cover, with their premultiplied mean color
+export const densityFragmentShaderSource = `#version 300 es
+precision highp float;
+
+in vec2 v_uv;
+out vec4 fragColor;
+
+uniform sampler2D u_density;
+uniform vec2 u_scale; // Screen size over the map size, both in pixels
+
+void main() {
+  // Map rows run downwards, texture coordinates upwards
+  vec4 cell = texture(u_density, vec2(v_uv.x, 1.0 - v_uv.y) * u_scale);
+  vec3 color = cell.rgb / max(cell.a, 0.0001);
+
+  // Same opacity as a particle's core
+  fragColor = vec4(color, cell.a * 0.8);
+}
+`;
+
+// Keeps the part of each pixel brighter than the bloom threshold
+export const bloomThresholdFragmentShaderSource = `#version 300 es
+precision highp float;
+
+in vec2 v_uv;
+out vec4 fragColor;
+
+uniform sampler2D u_source;
+uniform float u_threshold;
+
+void main() {
+  vec3 color = texture(u_source, v_uv).rgb;
+  float brightness = max(color.r, max(color.g, color.b));
+  float contribution =
+    max(brightness - u_threshold, 0.0) / max(brightness, 0.0001);
+  fragColor = vec4(color * contribution, 1.0);
+}
+`;
+
+// One direction of a separable 9-tap Gaussian blur
+export const blurFragmentShaderSource = `#version 300 es
+precision highp float;
+
+in vec2 v_uv;
+out vec4 fragColor;
+
+uniform sampler2D u_source;
+uniform vec2 u_direction; // Texel step times spread
+
+const float weights[5] =
+  float[](0.227027, 0.1945946, 0.1216216, 0.054054, 0.016216);
+
+void main() {
+  vec3 sum = texture(u_source, v_uv).rgb * weights[0];
+  for (int i = 1; i < 5; i++) {
+    vec2 offset = u_direction * float(i);
+    sum += texture(u_source, v_uv + offset).rgb * weights[i];
+    sum += texture(u_source, v_uv - offset).rgb * weights[i];
+  }
+  fragColor = vec4(sum, 1.0);
+}
+`;
+
+// Adds the bloom to the scene and tone maps the result for the screen
+export const compositeFragmentShaderSource = `#version 300 es
+precision highp float;
+
+in vec2 v_uv;
+out vec4 fragColor;
+
+uniform sampler2D u_scene;
+uniform sampler2D u_bloom;
+uniform float u_bloomIntensity;
+uniform bool u_toneMapping;
+uniform float u_exposure;
+
+// Filmic curve fitted to ACES (Narkowicz 2015)
+vec3 toneMapACES(vec3 color) {
+  return clamp(
+    (color * (2.51 * color + 0.03)) / (color * (2.43 * color + 0.59) + 0.14),
+    0.0,
+    1.0
+  );
+}
+
+void main() {
+  vec3 color = texture(u_scene, v_uv).rgb;
+  color += texture(u_bloom, v_uv).rgb * u_bloomIntensity;
+
+  if (u_toneMapping) {
+    color = toneMapACES(color * u_exposure);
+  }
+
+  fragColor = vec4(color, 1.0);
+}
+`;
@@ -0,0 +1,79 @@
+import { ParticleSystem } from "./ParticleSystem";
+import {
+  Barrier,
+  type WorkerRequest,
+  type WorkerResponse,
+} from "./WorkerProtocol";
+
+/**
+ * Physics worker: integrates one slice of the particles in shared memory.
+ * Every worker keeps a replica of the rules and parameters, updated through
+ * "state" messages, and meets the other workers at a barrier around each
+ * force pass.
+ */
+
+let index = 0;
+let workerCount = 1;
+let barrier: Barrier | null = null;
+let particleSystem: ParticleSystem | null = null;
+
+const respond = (message: WorkerResponse) => {
+  self.postMessage(message);
+};
+
+const handleRequest = (request: WorkerRequest) => {
+  switch (request.type) {
+    case "init":
+      index = request.index;
+      workerCount = request.workerCount;
+      barrier = new Barrier(request.barrier, workerCount);
+      break;
+
+    case "state": {
+      const { state } = request;
+      if (!particleSystem) {
+        particleSystem = new ParticleSystem({
+          particleCount: 0,
+          worldSize: state.worldSize,
+          colorCount: state.colorCount,
+        });
+      }
+
+      const workerBarrier = barrier;
+      particleSystem.applySharedState(state);
+      particleSystem.setPartition(index, workerCount, () =>
+        workerBarrier?.wait(),
+      );
+      break;
+    }
+
+    case "step":
+      if (!particleSystem || !barrier) {
+        throw new Error("Worker received a step before its state");
+      }
+
+      for (let step = 0; step < request.steps; step++) {
+        for (let substep = 0; substep < request.substeps; substep++) {
+          particleSystem.update(request.stepSize);
+        }
+      }
+
+      // The batch is finished once every slice is
+      barrier.wait();
+      if (index === 0) {
+        respond({ type: "done" });
+      }
+      break;
+  }
+};
+
+self.addEventListener("message", (event: MessageEvent<WorkerRequest>) => {
+  try {
+    handleRequest(event.data);
+  } catch (error) {
+    respond({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});